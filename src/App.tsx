@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { Routes, Route } from 'react-router-dom';
 import MainLayout from './layouts/MainLayout';
 import Dashboard from './pages/dashboard';
@@ -9,23 +10,77 @@ import Jobs from './pages/jobs';
 import Assets from './pages/assets';
 import PromptBrain from './pages/prompt_brain';
 import Settings from './pages/settings';
+import UnlockPrompt from './components/common/UnlockPrompt';
+import { useAppStore } from './state';
+import { isInitialized } from './services/ai.service';
+import { recoverInterruptedBatches } from './services/batch.service';
+import { hasJobsInFlight } from './services/job.service';
+import { startStorageSweeper } from './services/storage.service';
+import { lockKeys, restoreKeys, startAutoLock } from './services/vault.service';
+
+let bootPromise: Promise<void> | null = null;
+
+/**
+ * Reconnect the AI client from the stored keys, then resume any batch
+ * work a previous tab left behind. Runs once per page load; with a locked
+ * key vault, recovery waits for the unlock prompt instead, and without
+ * working keys it waits until keys are connected in Settings.
+ */
+function boot(): Promise<void> {
+    if (!bootPromise) {
+        bootPromise = (async () => {
+            if (await restoreKeys() && isInitialized()) {
+                await recoverInterruptedBatches();
+            }
+        })();
+    }
+    return bootPromise;
+}
 
 function App() {
+    const { vaultEnabled, vaultLocked, vaultAutoLockMinutes } = useAppStore();
+    const [unlockSkipped, setUnlockSkipped] = useState(false);
+
+    useEffect(() => {
+        boot().catch(error => console.error('Boot recovery failed:', error));
+    }, []);
+
+    // Ask again whenever the vault locks, e.g. after the idle timeout
+    useEffect(() => {
+        if (vaultLocked) setUnlockSkipped(false);
+    }, [vaultLocked]);
+
+    useEffect(() => {
+        if (!vaultEnabled || vaultLocked || vaultAutoLockMinutes <= 0) return;
+        return startAutoLock(vaultAutoLockMinutes, lockKeys, hasJobsInFlight);
+    }, [vaultEnabled, vaultLocked, vaultAutoLockMinutes]);
+
+    useEffect(() => startStorageSweeper(() => useAppStore.getState().retentionPolicy), []);
+
+    const handleUnlock = () => {
+        recoverInterruptedBatches().catch(error => console.error('Batch recovery failed:', error));
+    };
+
     return (
-        <Routes>
-            <Route element={<MainLayout />}>
-                <Route path="/" element={<Dashboard />} />
-                <Route path="/dashboard" element={<Dashboard />} />
-                <Route path="/grid-to-json" element={<GridToJson />} />
-                <Route path="/vision-to-json" element={<VisionToJson />} />
-                <Route path="/realistic-to-json" element={<RealisticToJson />} />
-                <Route path="/batch-manager" element={<BatchManager />} />
-                <Route path="/jobs" element={<Jobs />} />
-                <Route path="/assets" element={<Assets />} />
-                <Route path="/prompt-brain" element={<PromptBrain />} />
-                <Route path="/settings" element={<Settings />} />
-            </Route>
-        </Routes>
+        <>
+            {vaultLocked && !unlockSkipped && (
+                <UnlockPrompt onUnlock={handleUnlock} onSkip={() => setUnlockSkipped(true)} />
+            )}
+            <Routes>
+                <Route element={<MainLayout />}>
+                    <Route path="/" element={<Dashboard />} />
+                    <Route path="/dashboard" element={<Dashboard />} />
+                    <Route path="/grid-to-json" element={<GridToJson />} />
+                    <Route path="/vision-to-json" element={<VisionToJson />} />
+                    <Route path="/realistic-to-json" element={<RealisticToJson />} />
+                    <Route path="/batch-manager" element={<BatchManager />} />
+                    <Route path="/jobs" element={<Jobs />} />
+                    <Route path="/assets" element={<Assets />} />
+                    <Route path="/prompt-brain" element={<PromptBrain />} />
+                    <Route path="/settings" element={<Settings />} />
+                </Route>
+            </Routes>
+        </>
     );
 }
 
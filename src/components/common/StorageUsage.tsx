@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import { getStorageReport, requestPersistentStorage, type StorageReport, type StoreName } from '../../services/storage.service';
+
+interface StorageUsageProps {
+    /** Change to reload the report, e.g. after a cleanup */
+    refreshKey?: number;
+}
+
+const TABLE_LABELS: Record<StoreName, string> = {
+    assets: 'Assets',
+    thumbnails: 'Thumbnails',
+    jobs: 'Jobs',
+    manifests: 'Job manifests',
+    batches: 'Batches',
+    prompts: 'Prompts',
+    settings: 'Settings',
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Browser quota usage with a breakdown per table and per asset type
+ */
+export default function StorageUsage({ refreshKey = 0 }: StorageUsageProps) {
+    const [report, setReport] = useState<StorageReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [persistDenied, setPersistDenied] = useState(false);
+
+    const loadReport = async () => {
+        setLoading(true);
+        try {
+            setReport(await getStorageReport());
+        } catch (error) {
+            console.error('Failed to measure storage:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadReport();
+    }, [refreshKey]);
+
+    const handlePersist = async () => {
+        const granted = await requestPersistentStorage();
+        setPersistDenied(!granted);
+        await loadReport();
+    };
+
+    if (!report) {
+        return loading ? <Loader2 size={20} className="spin" style={{ color: 'var(--color-text-muted)' }} /> : null;
+    }
+
+    const usedShare = report.usage !== undefined && report.quota ? report.usage / report.quota : null;
+    const assetTypes = Object.entries(report.assetTypes).sort(([, a], [, b]) => b.bytes - a.bytes);
+
+    return (
+        <div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 'var(--spacing-sm)', fontSize: '14px' }}>
+                <span>
+                    {report.usage !== undefined ? formatBytes(report.usage) : 'Unknown'}
+                    <span style={{ color: 'var(--color-text-muted)' }}>
+                        {report.quota ? ` of ${formatBytes(report.quota)} available to this site` : ' used'}
+                    </span>
+                </span>
+                <button className="btn btn-ghost btn-icon" onClick={loadReport} disabled={loading} title="Refresh">
+                    {loading ? <Loader2 size={14} className="spin" /> : <RefreshCw size={14} />}
+                </button>
+            </div>
+            {usedShare !== null && (
+                <div style={{ height: '8px', background: 'var(--color-bg-tertiary)', borderRadius: 'var(--radius-full)', marginBottom: 'var(--spacing-md)' }}>
+                    <div style={{
+                        width: `${Math.min(usedShare * 100, 100)}%`,
+                        minWidth: '2px',
+                        height: '100%',
+                        background: usedShare > 0.8 ? 'var(--color-error)' : 'var(--color-accent-gradient)',
+                        borderRadius: 'var(--radius-full)'
+                    }}></div>
+                </div>
+            )}
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 'var(--spacing-lg)' }}>
+                <div style={{ fontSize: '13px', color: 'var(--color-text-muted)' }}>
+                    {report.persisted
+                        ? 'Persistent: the browser will not evict this data under storage pressure.'
+                        : persistDenied
+                            ? 'The browser declined; it may still evict this data when space runs low.'
+                            : 'Best-effort: the browser may evict this data when space runs low.'}
+                </div>
+                {report.persisted ? (
+                    <span className="badge badge-success">Persistent</span>
+                ) : (
+                    <button className="btn btn-secondary" onClick={handlePersist}>
+                        <ShieldCheck size={14} /> Make Persistent
+                    </button>
+                )}
+            </div>
+
+            <table className="table">
+                <thead>
+                    <tr>
+                        <th>Table</th>
+                        <th>Records</th>
+                        <th>Size</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {(Object.keys(TABLE_LABELS) as StoreName[]).map(name => (
+                        <tr key={name}>
+                            <td>{TABLE_LABELS[name]}</td>
+                            <td>{report.tables[name].count.toLocaleString()}</td>
+                            <td style={{ fontFamily: 'var(--font-mono)', fontSize: '13px' }}>{formatBytes(report.tables[name].bytes)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {assetTypes.length > 0 && (
+                <table className="table" style={{ marginTop: 'var(--spacing-md)' }}>
+                    <thead>
+                        <tr>
+                            <th>Asset Type</th>
+                            <th>Assets</th>
+                            <th>Size</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {assetTypes.map(([type, entry]) => (
+                            <tr key={type}>
+                                <td><code>{type}</code></td>
+                                <td>{entry.count.toLocaleString()}</td>
+                                <td style={{ fontFamily: 'var(--font-mono)', fontSize: '13px' }}>{formatBytes(entry.bytes)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Lock, Loader2, AlertCircle } from 'lucide-react';
+import { unlockKeys } from '../../services/vault.service';
+
+interface UnlockPromptProps {
+    /** Called once the keys are unlocked and the provider is connected */
+    onUnlock: () => void;
+    /** Continue without keys; AI calls stay unavailable until unlocked */
+    onSkip: () => void;
+}
+
+/**
+ * Asks for the vault passphrase when the API keys are stored encrypted
+ */
+export default function UnlockPrompt({ onUnlock, onSkip }: UnlockPromptProps) {
+    const [passphrase, setPassphrase] = useState('');
+    const [unlocking, setUnlocking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleUnlock = async () => {
+        if (!passphrase) return;
+        setUnlocking(true);
+        setError(null);
+        try {
+            await unlockKeys(passphrase);
+            setPassphrase('');
+            onUnlock();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to unlock');
+        } finally {
+            setUnlocking(false);
+        }
+    };
+
+    return (
+        <div style={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: 200,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'rgba(0, 0, 0, 0.6)',
+            backdropFilter: 'blur(4px)'
+        }}>
+            <div className="card" style={{ width: 400, maxWidth: '90vw' }}>
+                <div className="card-header">
+                    <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                        <Lock size={20} />
+                        Unlock API Keys
+                    </h3>
+                </div>
+                <div className="card-body">
+                    <div style={{ fontSize: '14px', color: 'var(--color-text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+                        Your API keys are encrypted. Enter the passphrase to use them in this session.
+                    </div>
+                    <input
+                        type="password"
+                        className="input"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                        placeholder="Passphrase"
+                        autoFocus
+                    />
+                    {error && (
+                        <div style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 'var(--spacing-sm)',
+                            marginTop: 'var(--spacing-sm)',
+                            color: 'var(--color-error)',
+                            fontSize: '13px'
+                        }}>
+                            <AlertCircle size={14} />
+                            {error}
+                        </div>
+                    )}
+                    <div style={{ display: 'flex', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-lg)' }}>
+                        <button
+                            className="btn btn-primary"
+                            onClick={handleUnlock}
+                            disabled={unlocking || !passphrase}
+                            style={{ flex: 1 }}
+                        >
+                            {unlocking ? (
+                                <>
+                                    <Loader2 size={16} className="spin" /> Unlocking...
+                                </>
+                            ) : (
+                                'Unlock'
+                            )}
+                        </button>
+                        <button className="btn btn-secondary" onClick={onSkip} disabled={unlocking}>
+                            Not now
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
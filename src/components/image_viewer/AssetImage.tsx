@@ -0,0 +1,36 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getImageUrl } from '../../services/image.service';
+
+interface AssetImageProps {
+    assetId: string;
+    alt?: string;
+    style?: CSSProperties;
+}
+
+/**
+ * Full-size image asset, read from IndexedDB only once this is rendered
+ */
+export default function AssetImage({ assetId, alt = '', style }: AssetImageProps) {
+    // undefined while loading, null if the asset is missing or not an image
+    const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+    useEffect(() => {
+        let active = true;
+        setUrl(undefined);
+        getImageUrl(assetId)
+            .then(result => { if (active) setUrl(result); })
+            .catch(error => {
+                console.warn('Image unavailable:', error);
+                if (active) setUrl(null);
+            });
+        return () => { active = false; };
+    }, [assetId]);
+
+    if (url === undefined) {
+        return <Loader2 size={20} className="spin" style={{ color: 'var(--color-text-muted)' }} />;
+    }
+    return url ? (
+        <img src={url} alt={alt} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain', ...style }} />
+    ) : null;
+}
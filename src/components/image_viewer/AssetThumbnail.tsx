@@ -0,0 +1,31 @@
+import { useEffect, useState, type CSSProperties } from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+import { getThumbnailUrl } from '../../services/image.service';
+
+interface AssetThumbnailProps {
+    assetId: string;
+    style?: CSSProperties;
+    iconSize?: number;
+}
+
+/**
+ * Square thumbnail of an image asset; a placeholder icon until it loads
+ */
+export default function AssetThumbnail({ assetId, style, iconSize = 20 }: AssetThumbnailProps) {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let active = true;
+        setUrl(null);
+        getThumbnailUrl(assetId)
+            .then(result => { if (active) setUrl(result); })
+            .catch(error => console.warn('Thumbnail unavailable:', error));
+        return () => { active = false; };
+    }, [assetId]);
+
+    return url ? (
+        <img src={url} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover', ...style }} />
+    ) : (
+        <ImageIcon size={iconSize} style={{ color: 'var(--color-text-muted)' }} />
+    );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { assetOperations } from '../../db';
+import type { Job } from '../../types';
+
+interface JobOutputComparisonProps {
+    original: Job;
+    rerun: Job;
+}
+
+/**
+ * The JSON output of a job, or null if it has none (failed, cancelled or deleted)
+ */
+async function loadOutput(job: Job): Promise<string | null> {
+    for (const ref of job.outputRefs) {
+        const asset = await assetOperations.get(ref);
+        if (asset && typeof asset.data === 'string' && asset.mimeType === 'application/json') {
+            try {
+                return JSON.stringify(JSON.parse(asset.data), null, 2);
+            } catch {
+                return asset.data;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * A job and its re-run side by side, each labelled with the prompt version and model it ran with
+ */
+export default function JobOutputComparison({ original, rerun }: JobOutputComparisonProps) {
+    // undefined while loading
+    const [outputs, setOutputs] = useState<[string | null, string | null] | undefined>(undefined);
+
+    useEffect(() => {
+        let active = true;
+        setOutputs(undefined);
+        Promise.all([loadOutput(original), loadOutput(rerun)])
+            .then(result => { if (active) setOutputs(result); })
+            .catch(error => {
+                console.error('Failed to load job outputs:', error);
+                if (active) setOutputs([null, null]);
+            });
+        return () => { active = false; };
+    }, [original, rerun]);
+
+    if (outputs === undefined) {
+        return <Loader2 size={20} className="spin" style={{ color: 'var(--color-text-muted)' }} />;
+    }
+
+    const identical = outputs[0] !== null && outputs[0] === outputs[1];
+
+    return (
+        <>
+            {identical && (
+                <div style={{ marginBottom: 'var(--spacing-md)' }}>
+                    <span className="badge badge-success">Identical output</span>
+                </div>
+            )}
+            <div className="grid grid-2">
+                {([['Original', original, outputs[0]], ['Re-run', rerun, outputs[1]]] as const).map(([label, job, output]) => (
+                    <div key={job.id} style={{ minWidth: 0 }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', flexWrap: 'wrap', marginBottom: 'var(--spacing-sm)' }}>
+                            <strong>{label}</strong>
+                            <span style={{ fontFamily: 'var(--font-mono)', fontSize: '12px', color: 'var(--color-text-muted)' }}>{job.id.slice(0, 8)}</span>
+                            <span className="badge">v{job.promptVersion}</span>
+                            {job.usage && <span className="badge badge-info">{job.usage.model}</span>}
+                            {job.validation && (job.validation.valid
+                                ? <span className="badge badge-success">Valid</span>
+                                : <span className="badge badge-warning">{job.validation.violations.length} violation(s)</span>)}
+                        </div>
+                        <div className="json-editor" style={{ maxHeight: 480 }}>
+                            <pre>{output ?? (job.error ? `// Failed: ${job.error}` : '// No output')}</pre>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+}
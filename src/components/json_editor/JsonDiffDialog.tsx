@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { assetOperations, jobOperations } from '../../db';
+import type { Asset, AssetType, Job, ModuleType, UUID } from '../../types';
+import JsonDiffViewer from './JsonDiffViewer';
+
+interface JsonDiffDialogProps {
+    /** Preselected assets */
+    beforeId?: UUID;
+    afterId?: UUID;
+    onClose: () => void;
+}
+
+interface JsonOutput {
+    asset: Asset;
+    module?: ModuleType;
+    promptVersion?: string;
+}
+
+// Assets saved without a job only have their type to go by
+const TYPE_MODULES: Partial<Record<AssetType, ModuleType>> = {
+    identity_json: 'grid_to_json',
+    panel_json: 'grid_to_json',
+    vision_json: 'vision_to_json',
+    realistic_json: 'realistic_to_json',
+};
+
+const MODULE_LABELS: Record<ModuleType, string> = {
+    grid_to_json: 'Grid-to-JSON',
+    vision_to_json: 'Vision-to-JSON',
+    realistic_to_json: 'Realistic-to-JSON',
+};
+
+/**
+ * Every stored JSON asset with the module that produced it, newest first
+ */
+async function loadJsonOutputs(): Promise<JsonOutput[]> {
+    const assets = (await assetOperations.getAll())
+        .filter(asset => asset.mimeType === 'application/json' && typeof asset.data === 'string');
+    const jobIds = [...new Set(assets.map(asset => asset.jobId).filter((id): id is UUID => id !== undefined))];
+    const jobs = new Map<UUID, Job>();
+    for (const job of await Promise.all(jobIds.map(id => jobOperations.get(id)))) {
+        if (job) jobs.set(job.id, job);
+    }
+    return assets.map(asset => {
+        const job = asset.jobId ? jobs.get(asset.jobId) : undefined;
+        const promptVersion = job?.promptVersion ?? asset.metadata.promptVersion;
+        return {
+            asset,
+            module: job?.module ?? TYPE_MODULES[asset.type],
+            promptVersion: typeof promptVersion === 'string' ? promptVersion : undefined,
+        };
+    });
+}
+
+function parseOutput(output: JsonOutput | undefined): { value?: unknown; error?: string } {
+    if (!output) return {};
+    try {
+        return { value: JSON.parse(output.asset.data as string) };
+    } catch {
+        return { error: `${output.asset.filename} is not valid JSON` };
+    }
+}
+
+function optionLabel({ asset, promptVersion }: JsonOutput): string {
+    const version = promptVersion ? ` · v${promptVersion}` : '';
+    return `${asset.filename}${version} · ${new Date(asset.createdAt).toLocaleString()}`;
+}
+
+/**
+ * Pick two JSON outputs of the same module and show their structured diff
+ */
+export default function JsonDiffDialog({ beforeId, afterId, onClose }: JsonDiffDialogProps) {
+    const [outputs, setOutputs] = useState<JsonOutput[] | null>(null);
+    const [selectedBefore, setSelectedBefore] = useState(beforeId ?? '');
+    const [selectedAfter, setSelectedAfter] = useState(afterId ?? '');
+
+    useEffect(() => {
+        loadJsonOutputs()
+            .then(setOutputs)
+            .catch(error => {
+                console.error('Failed to load JSON assets:', error);
+                setOutputs([]);
+            });
+    }, []);
+
+    const before = outputs?.find(output => output.asset.id === selectedBefore);
+    const after = outputs?.find(output => output.asset.id === selectedAfter);
+    const candidates = (outputs ?? []).filter(output =>
+        output.asset.id !== selectedBefore && (!before || output.module === before.module)
+    );
+
+    const handleBeforeChange = (id: string) => {
+        setSelectedBefore(id);
+        const next = outputs?.find(output => output.asset.id === id);
+        if (after && (after.asset.id === id || after.module !== next?.module)) {
+            setSelectedAfter('');
+        }
+    };
+
+    const parsedBefore = useMemo(() => parseOutput(before), [before]);
+    const parsedAfter = useMemo(() => parseOutput(after), [after]);
+    const error = parsedBefore.error ?? parsedAfter.error;
+
+    return (
+        <div
+            onClick={onClose}
+            style={{
+                position: 'fixed',
+                inset: 0,
+                zIndex: 200,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                padding: 'var(--spacing-2xl)',
+                background: 'rgba(0, 0, 0, 0.8)'
+            }}
+        >
+            <div
+                className="card"
+                onClick={(e) => e.stopPropagation()}
+                style={{ width: '100%', maxWidth: 1100, maxHeight: '100%', overflow: 'auto', background: 'var(--color-bg-secondary)' }}
+            >
+                <div className="card-header">
+                    <h3 className="card-title">Compare JSON Outputs</h3>
+                    <button className="btn btn-ghost btn-icon" onClick={onClose} title="Close">
+                        <X size={20} />
+                    </button>
+                </div>
+                <div className="card-body">
+                    {outputs === null ? (
+                        <div style={{ textAlign: 'center', padding: 'var(--spacing-xl)', color: 'var(--color-text-muted)' }}>
+                            <Loader2 size={24} className="spin" />
+                        </div>
+                    ) : (
+                        <>
+                            <div className="grid grid-2" style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                <div>
+                                    <label style={{ display: 'block', fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>BEFORE</label>
+                                    <select className="input" value={selectedBefore} onChange={(e) => handleBeforeChange(e.target.value)}>
+                                        <option value="">Select an output...</option>
+                                        {outputs.map(output => (
+                                            <option key={output.asset.id} value={output.asset.id}>
+                                                {output.module ? `${MODULE_LABELS[output.module]} · ` : ''}{optionLabel(output)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label style={{ display: 'block', fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>
+                                        AFTER{before?.module ? ` (${MODULE_LABELS[before.module]} only)` : ''}
+                                    </label>
+                                    <select
+                                        className="input"
+                                        value={selectedAfter}
+                                        onChange={(e) => setSelectedAfter(e.target.value)}
+                                        disabled={!before}
+                                    >
+                                        <option value="">Select an output...</option>
+                                        {candidates.map(output => (
+                                            <option key={output.asset.id} value={output.asset.id}>{optionLabel(output)}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            {error ? (
+                                <div style={{ color: 'var(--color-error)', fontSize: '13px' }}>{error}</div>
+                            ) : before && after ? (
+                                <JsonDiffViewer
+                                    before={parsedBefore.value}
+                                    after={parsedAfter.value}
+                                    exportName={`${before.asset.id.slice(0, 8)}_to_${after.asset.id.slice(0, 8)}`}
+                                />
+                            ) : (
+                                <div style={{ color: 'var(--color-text-muted)', fontSize: '13px', textAlign: 'center', padding: 'var(--spacing-lg)' }}>
+                                    {outputs.length < 2
+                                        ? 'At least two JSON outputs are needed to compare.'
+                                        : 'Choose two outputs of the same module to compare.'}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download } from 'lucide-react';
+import {
+    createJsonPatch,
+    diffJson,
+    isImperceptible,
+    summarizeDiff,
+    type DiffNode
+} from '../../utils/jsonDiff';
+import { parseHexColor } from '../../utils/color';
+
+interface JsonDiffViewerProps {
+    before: unknown;
+    after: unknown;
+    /** Base name of the exported patch file */
+    exportName?: string;
+}
+
+interface DiffRowProps {
+    node: DiffNode;
+    depth: number;
+    showUnchanged: boolean;
+    hideImperceptible: boolean;
+}
+
+const KIND_STYLES: Record<DiffNode['kind'], { marker: string; color: string; background?: string }> = {
+    added: { marker: '+', color: 'var(--color-success)', background: 'rgba(16, 185, 129, 0.08)' },
+    removed: { marker: '−', color: 'var(--color-error)', background: 'rgba(239, 68, 68, 0.08)' },
+    changed: { marker: '~', color: 'var(--color-warning)', background: 'rgba(245, 158, 11, 0.08)' },
+    unchanged: { marker: ' ', color: 'var(--color-text-muted)' },
+};
+
+function formatValue(value: unknown): string {
+    const text = JSON.stringify(value);
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+function Swatch({ value }: { value: unknown }) {
+    if (!parseHexColor(value)) return null;
+    return (
+        <span style={{
+            display: 'inline-block',
+            width: 12,
+            height: 12,
+            marginRight: 4,
+            verticalAlign: 'middle',
+            background: String(value),
+            border: '1px solid var(--color-border)',
+            borderRadius: 2
+        }} />
+    );
+}
+
+/**
+ * Whether a node has anything to show with the current filters
+ */
+function isVisible(node: DiffNode, showUnchanged: boolean, hideImperceptible: boolean): boolean {
+    if (node.kind === 'unchanged') return showUnchanged;
+    if (hideImperceptible && isImperceptible(node)) return showUnchanged;
+    if (node.children && node.kind === 'changed' && !showUnchanged) {
+        return node.children.some(child => isVisible(child, showUnchanged, hideImperceptible));
+    }
+    return true;
+}
+
+function DiffRow({ node, depth, showUnchanged, hideImperceptible }: DiffRowProps) {
+    const [expanded, setExpanded] = useState(node.kind === 'changed');
+    const muted = node.kind === 'unchanged' || (hideImperceptible && isImperceptible(node));
+    const style = KIND_STYLES[muted ? 'unchanged' : node.kind];
+    const children = node.children?.filter(child => isVisible(child, showUnchanged, hideImperceptible)) ?? [];
+
+    return (
+        <>
+            <div
+                onClick={node.children ? () => setExpanded(!expanded) : undefined}
+                style={{
+                    display: 'flex',
+                    alignItems: 'baseline',
+                    gap: 'var(--spacing-xs)',
+                    padding: '2px var(--spacing-sm)',
+                    paddingLeft: `calc(var(--spacing-sm) + ${depth * 16}px)`,
+                    background: style.background,
+                    fontFamily: 'var(--font-mono)',
+                    fontSize: '12px',
+                    cursor: node.children ? 'pointer' : undefined
+                }}
+                title={node.path || '/'}
+            >
+                <span style={{ width: 10, color: style.color, flexShrink: 0 }}>{style.marker}</span>
+                {node.children ? (
+                    expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />
+                ) : (
+                    <span style={{ width: 12, flexShrink: 0 }} />
+                )}
+                <span style={{ color: muted ? 'var(--color-text-muted)' : 'var(--color-text-primary)' }}>{node.key || '(root)'}</span>
+                {node.matchedBy && (
+                    <span className="badge" style={{ fontSize: '10px' }}>matched by {node.matchedBy}</span>
+                )}
+                {!node.children && (
+                    <span style={{ color: 'var(--color-text-secondary)', wordBreak: 'break-all' }}>
+                        {node.kind === 'changed' ? (
+                            <>
+                                <span style={{ textDecoration: 'line-through', opacity: 0.7 }}>
+                                    <Swatch value={node.before} />{formatValue(node.before)}
+                                </span>
+                                {' → '}
+                                <Swatch value={node.after} />{formatValue(node.after)}
+                            </>
+                        ) : (
+                            <>
+                                <Swatch value={node.kind === 'removed' ? node.before : node.after} />
+                                {formatValue(node.kind === 'removed' ? node.before : node.after)}
+                            </>
+                        )}
+                    </span>
+                )}
+                {node.colorDelta !== undefined && (
+                    <span
+                        className={`badge ${isImperceptible(node) ? '' : 'badge-warning'}`}
+                        style={{ fontSize: '10px' }}
+                        title="CIEDE2000 colour difference; below 1 is not visible"
+                    >
+                        ΔE {node.colorDelta.toFixed(1)}{isImperceptible(node) ? ' · imperceptible' : ''}
+                    </span>
+                )}
+            </div>
+            {expanded && children.map(child => (
+                <DiffRow
+                    key={`${child.kind}:${child.path}`}
+                    node={child}
+                    depth={depth + 1}
+                    showUnchanged={showUnchanged}
+                    hideImperceptible={hideImperceptible}
+                />
+            ))}
+        </>
+    );
+}
+
+/**
+ * Tree diff of two JSON documents with a JSON Patch (RFC 6902) export
+ */
+export default function JsonDiffViewer({ before, after, exportName = 'diff' }: JsonDiffViewerProps) {
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [hideImperceptible, setHideImperceptible] = useState(true);
+
+    const root = useMemo(() => diffJson(before, after), [before, after]);
+    const summary = summarizeDiff(root, !hideImperceptible);
+    const identical = summary.added + summary.removed + summary.changed === 0;
+
+    const handleExportPatch = () => {
+        const patch = createJsonPatch(before, after);
+        const blob = new Blob([JSON.stringify(patch, null, 2)], { type: 'application/json-patch+json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${exportName}.patch.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', flexWrap: 'wrap', marginBottom: 'var(--spacing-md)' }}>
+                <span className="badge badge-success">+{summary.added} added</span>
+                <span className="badge badge-error">−{summary.removed} removed</span>
+                <span className="badge badge-warning">~{summary.changed} changed</span>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: '13px', marginLeft: 'var(--spacing-sm)' }}>
+                    <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                    Show unchanged
+                </label>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: '13px' }}>
+                    <input type="checkbox" checked={hideImperceptible} onChange={(e) => setHideImperceptible(e.target.checked)} />
+                    Ignore imperceptible colour changes
+                </label>
+                <button className="btn btn-secondary" style={{ marginLeft: 'auto' }} onClick={handleExportPatch}>
+                    <Download size={16} /> Export JSON Patch
+                </button>
+            </div>
+            <div style={{
+                maxHeight: 520,
+                overflow: 'auto',
+                background: 'var(--color-bg-tertiary)',
+                borderRadius: 'var(--radius-md)',
+                padding: 'var(--spacing-xs) 0'
+            }}>
+                {identical && !showUnchanged ? (
+                    <div style={{ padding: 'var(--spacing-md)', color: 'var(--color-text-muted)', fontSize: '13px' }}>
+                        No differences
+                    </div>
+                ) : (
+                    <DiffRow
+                        node={root}
+                        depth={0}
+                        showUnchanged={showUnchanged}
+                        hideImperceptible={hideImperceptible}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
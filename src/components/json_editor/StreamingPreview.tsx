@@ -0,0 +1,36 @@
+import { Loader2 } from 'lucide-react';
+import type { StreamProgress } from '../../types';
+
+interface StreamingPreviewProps {
+    progress: StreamProgress;
+    maxHeight?: number | string;
+}
+
+/**
+ * Live view of a JSON response while it streams in
+ */
+export default function StreamingPreview({ progress, maxHeight }: StreamingPreviewProps) {
+    return (
+        <>
+            <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 'var(--spacing-sm)',
+                marginBottom: 'var(--spacing-sm)',
+                fontSize: '12px',
+                color: 'var(--color-text-muted)'
+            }}>
+                <Loader2 size={14} className="spin" />
+                Streaming...
+                <span className="badge badge-info" style={{ marginLeft: 'auto' }}>
+                    ~{progress.outputTokens.toLocaleString()} tokens
+                </span>
+            </div>
+            <div className="json-editor" style={maxHeight !== undefined ? { maxHeight } : undefined}>
+                <pre>{progress.partial !== null
+                    ? JSON.stringify(progress.partial, null, 2)
+                    : progress.text}</pre>
+            </div>
+        </>
+    );
+}
@@ -6,37 +6,40 @@
 import Dexie, { type Table } from 'dexie';
 import type {
     Job,
+    JobManifest,
     Batch,
     Asset,
+    Thumbnail,
     PromptVersion,
     UserSettings,
+    ApiKeyEntry,
+    EncryptedVault,
     UUID,
     ModuleType,
     JobStatus,
     AssetType
 } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from '../services/providers';
+import { applyMigrations } from './migrations';
 
 // ============================================================================
 // DATABASE SCHEMA
 // ============================================================================
 
-class AIImagePlatformDB extends Dexie {
+export class AIImagePlatformDB extends Dexie {
     jobs!: Table<Job, UUID>;
     batches!: Table<Batch, UUID>;
     assets!: Table<Asset, UUID>;
+    thumbnails!: Table<Thumbnail, UUID>;
     prompts!: Table<PromptVersion, UUID>;
     settings!: Table<UserSettings & { key: string }, string>;
+    manifests!: Table<JobManifest, UUID>;
 
-    constructor() {
-        super('AIImagePlatformDB');
+    constructor(name = 'AIImagePlatformDB') {
+        super(name);
 
-        this.version(1).stores({
-            jobs: 'id, module, status, batchId, createdAt',
-            batches: 'id, module, status, createdAt',
-            assets: 'id, type, jobId, batchId, createdAt',
-            prompts: 'id, module, version, isActive, createdAt',
-            settings: 'key'
-        });
+        // Schema versions and their upgrades live in ./migrations
+        applyMigrations(this);
     }
 }
 
@@ -62,11 +65,19 @@ export const jobOperations = {
     async updateStatus(id: UUID, status: JobStatus, error?: string): Promise<void> {
         const updates: Partial<Job> = { status };
         if (status === 'running') updates.startedAt = Date.now();
-        else if (status === 'completed' || status === 'failed') updates.completedAt = Date.now();
+        else if (status === 'completed' || status === 'failed' || status === 'cancelled') updates.completedAt = Date.now();
         if (error) updates.error = error;
         await db.jobs.update(id, updates);
     },
 
+    async startIfPending(id: UUID): Promise<boolean> {
+        const updated = await db.jobs
+            .where('id').equals(id)
+            .and(job => job.status === 'pending')
+            .modify({ status: 'running', startedAt: Date.now() });
+        return updated > 0;
+    },
+
     async getByStatus(status: JobStatus): Promise<Job[]> {
         return await db.jobs.where('status').equals(status).toArray();
     },
@@ -79,6 +90,10 @@ export const jobOperations = {
         return await db.jobs.where('batchId').equals(batchId).toArray();
     },
 
+    async getByInput(assetId: UUID): Promise<Job[]> {
+        return await db.jobs.where('inputRefs').equals(assetId).toArray();
+    },
+
     async getAll(limit?: number): Promise<Job[]> {
         let query = db.jobs.orderBy('createdAt').reverse();
         if (limit) query = query.limit(limit);
@@ -86,7 +101,10 @@ export const jobOperations = {
     },
 
     async delete(id: UUID): Promise<void> {
-        await db.jobs.delete(id);
+        await db.transaction('rw', [db.jobs, db.manifests], async () => {
+            await db.manifests.delete(id);
+            await db.jobs.delete(id);
+        });
     },
 
     async incrementRetry(id: UUID): Promise<number> {
@@ -98,6 +116,24 @@ export const jobOperations = {
     }
 };
 
+// ============================================================================
+// MANIFEST OPERATIONS
+// ============================================================================
+
+export const manifestOperations = {
+    async get(jobId: UUID): Promise<JobManifest | undefined> {
+        return await db.manifests.get(jobId);
+    },
+
+    async put(manifest: JobManifest): Promise<void> {
+        await db.manifests.put(manifest);
+    },
+
+    async update(jobId: UUID, updates: Partial<JobManifest>): Promise<void> {
+        await db.manifests.update(jobId, updates);
+    }
+};
+
 // ============================================================================
 // BATCH OPERATIONS
 // ============================================================================
@@ -130,8 +166,10 @@ export const batchOperations = {
     },
 
     async delete(id: UUID): Promise<void> {
-        await db.transaction('rw', [db.batches, db.jobs], async () => {
-            await db.jobs.where('batchId').equals(id).delete();
+        await db.transaction('rw', [db.batches, db.jobs, db.manifests], async () => {
+            const jobIds = await db.jobs.where('batchId').equals(id).primaryKeys();
+            await db.manifests.bulkDelete(jobIds);
+            await db.jobs.bulkDelete(jobIds);
             await db.batches.delete(id);
         });
     }
@@ -158,8 +196,15 @@ export const assetOperations = {
         return await db.assets.where('jobId').equals(jobId).toArray();
     },
 
+    async getBySourceHash(sourceSha256: string, type: AssetType): Promise<Asset | undefined> {
+        return await db.assets.where('sourceSha256').equals(sourceSha256).filter(asset => asset.type === type).first();
+    },
+
     async delete(id: UUID): Promise<void> {
-        await db.assets.delete(id);
+        await db.transaction('rw', [db.assets, db.thumbnails], async () => {
+            await db.thumbnails.delete(id);
+            await db.assets.delete(id);
+        });
     },
 
     async getAll(limit?: number): Promise<Asset[]> {
@@ -169,6 +214,20 @@ export const assetOperations = {
     }
 };
 
+// ============================================================================
+// THUMBNAIL OPERATIONS
+// ============================================================================
+
+export const thumbnailOperations = {
+    async get(assetId: UUID): Promise<Thumbnail | undefined> {
+        return await db.thumbnails.get(assetId);
+    },
+
+    async put(thumbnail: Thumbnail): Promise<void> {
+        await db.thumbnails.put(thumbnail);
+    }
+};
+
 // ============================================================================
 // PROMPT OPERATIONS
 // ============================================================================
@@ -228,23 +287,37 @@ export const settingsOperations = {
         await db.settings.put({ ...settings, key: 'user' });
     },
 
-    async getApiKey(): Promise<string | null> {
-        const settings = await this.get();
-        return settings?.apiKey || null;
-    },
-
-    async saveApiKey(apiKey: string, validated: boolean): Promise<void> {
+    async update(changes: Partial<UserSettings>): Promise<void> {
         const current = await this.get();
         const settings: UserSettings = current || {
-            apiKey: '',
-            apiKeyValidated: false,
+            apiKeys: [],
+            providerSettings: DEFAULT_PROVIDER_SETTINGS,
             theme: 'dark',
             defaultConcurrency: 3,
             autoRetry: true
         };
-        settings.apiKey = apiKey;
-        settings.apiKeyValidated = validated;
-        await this.save(settings);
+        await this.save({ ...settings, ...changes });
+    },
+
+    async getApiKeys(): Promise<ApiKeyEntry[]> {
+        const settings = await this.get();
+        return settings?.apiKeys || [];
+    },
+
+    async saveApiKeys(apiKeys: ApiKeyEntry[]): Promise<void> {
+        await this.update({ apiKeys });
+    },
+
+    async getKeyVault(): Promise<EncryptedVault | null> {
+        const settings = await this.get();
+        return settings?.keyVault || null;
+    },
+
+    /**
+     * Store the encrypted key list; undefined removes the vault
+     */
+    async saveKeyVault(keyVault: EncryptedVault | undefined): Promise<void> {
+        await this.update({ keyVault });
     }
 };
 
@@ -257,10 +330,12 @@ export function generateUUID(): UUID {
 }
 
 export async function clearAllData(): Promise<void> {
-    await db.transaction('rw', [db.jobs, db.batches, db.assets, db.prompts], async () => {
+    await db.transaction('rw', [db.jobs, db.manifests, db.batches, db.assets, db.thumbnails, db.prompts], async () => {
         await db.jobs.clear();
+        await db.manifests.clear();
         await db.batches.clear();
         await db.assets.clear();
+        await db.thumbnails.clear();
         await db.prompts.clear();
     });
 }
@@ -0,0 +1,165 @@
+/**
+ * Migration Tests
+ * Seeds a throwaway database at each historical version with records in the
+ * shapes that version wrote, opens it with the current schema so every
+ * pending upgrade runs, and checks the result.
+ */
+
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Asset, Batch, Job } from '../types';
+import { AIImagePlatformDB } from '.';
+import { applyMigrations, MIGRATIONS } from './migrations';
+
+type SeedRecords = Partial<Record<string, object[]>>;
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+const HISTORICAL = MIGRATIONS.slice(0, -1).map(migration => migration.version);
+
+const createdAt = Date.UTC(2025, 0, 1);
+let databaseCount = 0;
+const opened: Dexie[] = [];
+
+/**
+ * Create a database at `version` holding `records`, and return its name
+ */
+async function seedAt(version: number, records: SeedRecords = {}): Promise<string> {
+    const name = `AIImagePlatformDB-migration-test-${++databaseCount}`;
+    const legacy = new Dexie(name);
+    applyMigrations(legacy, MIGRATIONS.filter(migration => migration.version <= version));
+    await legacy.open();
+    for (const [table, rows] of Object.entries(records)) {
+        await legacy.table(table).bulkAdd(rows ?? []);
+    }
+    legacy.close();
+    return name;
+}
+
+async function upgrade(name: string): Promise<AIImagePlatformDB> {
+    const db = new AIImagePlatformDB(name);
+    opened.push(db);
+    await db.open();
+    return db;
+}
+
+afterEach(async () => {
+    for (const db of opened.splice(0)) {
+        db.close();
+        await Dexie.delete(db.name);
+    }
+});
+
+describe('database migrations', () => {
+    it.each(HISTORICAL)('upgrades an empty v%i database to the latest version', async (version) => {
+        const db = await upgrade(await seedAt(version));
+
+        expect(db.verno).toBe(LATEST);
+        expect(await db.manifests.count()).toBe(0);
+        expect(await db.assets.where('sourceSha256').equals('missing').count()).toBe(0);
+    });
+
+    it('normalises the record shapes v1 wrote', async () => {
+        const db = await upgrade(await seedAt(1, {
+            assets: [
+                { id: 'asset-legacy', type: 'source_image', filename: 'face.png', mimeType: 'image/png', data: 'data:image/png;base64,AAAA', sizeBytes: 1234, createdAt },
+                { id: 'asset-nosize', type: 'identity_json', filename: 'identity.json', mimeType: 'application/json', data: '{"a":1}', jobId: 'job-legacy', createdAt },
+                { id: 'asset-current', type: 'input_image', filename: 'ok.png', mimeType: 'image/png', data: 'data:image/png;base64,BBBB', size: 42, metadata: { keep: true }, createdAt },
+            ],
+            batches: [
+                { id: 'batch-legacy', module: 'grid_to_json', status: 'completed', totalJobs: 3, updatedAt: createdAt, jobIds: ['a', 'b', 'c'], completedJobs: 3, failedJobs: 0, createdAt, config: { concurrency: 1, retryPolicy: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1 }, promptVersion: '1.0.0' } },
+            ],
+            jobs: [
+                { id: 'job-legacy', module: 'grid_to_json', status: 'completed', promptVersion: '1.0.0', schemaVersion: '1.0.0', createdAt },
+                { id: 'job-input', module: 'grid_to_json', status: 'completed', promptVersion: '1.0.0', schemaVersion: '1.0.0', inputRefs: ['asset-current'], outputRefs: [], retryCount: 0, createdAt },
+            ],
+        }));
+
+        const legacyAsset = await db.assets.get('asset-legacy') as Asset & { sizeBytes?: number };
+        expect(legacyAsset.type).toBe('input_image');
+        expect(legacyAsset.sizeBytes).toBeUndefined();
+        expect(legacyAsset.data).toBeInstanceOf(Blob);
+        expect(legacyAsset.size).toBe((legacyAsset.data as Blob).size);
+        expect(legacyAsset.metadata).toEqual({});
+        expect(await db.assets.where('type').equals('input_image').count()).toBe(2);
+
+        const sizeless = await db.assets.get('asset-nosize');
+        expect(sizeless?.size).toBe('{"a":1}'.length);
+
+        const current = await db.assets.get('asset-current');
+        expect(current?.metadata.keep).toBe(true);
+
+        const batch = await db.batches.get('batch-legacy') as Batch & { totalJobs?: number; updatedAt?: number };
+        expect(batch.imageCount).toBe(3);
+        expect(batch).not.toHaveProperty('totalJobs');
+        expect(batch).not.toHaveProperty('updatedAt');
+
+        const job = await db.jobs.get('job-legacy') as Job;
+        expect(job.inputRefs).toEqual([]);
+        expect(job.outputRefs).toEqual([]);
+        expect(job.retryCount).toBe(0);
+
+        expect(await db.jobs.where('inputRefs').equals('asset-current').primaryKeys()).toEqual(['job-input']);
+    });
+
+    it('indexes jobs written at v3 by input', async () => {
+        const db = await upgrade(await seedAt(3, {
+            jobs: [
+                { id: 'job-1', module: 'vision_to_json', status: 'completed', promptVersion: '1.0.0', inputRefs: ['asset-1', 'asset-2'], outputRefs: [], retryCount: 0, createdAt },
+            ],
+        }));
+
+        expect(await db.jobs.where('inputRefs').equals('asset-2').primaryKeys()).toEqual(['job-1']);
+    });
+
+    it('splits the upload hash from the stored hash of assets written at v5', async () => {
+        const asset = { type: 'input_image', mimeType: 'image/webp', size: 4, data: 'AAAA', createdAt };
+        const db = await upgrade(await seedAt(5, {
+            assets: [
+                { ...asset, id: 'asset-raw', filename: 'raw.png', metadata: {}, sha256: 'raw-hash' },
+                {
+                    ...asset,
+                    id: 'asset-processed',
+                    filename: 'photo.webp',
+                    metadata: { preprocessing: { original: { filename: 'photo.jpg', mimeType: 'image/jpeg', size: 9 }, transforms: [{ op: 'encode', mimeType: 'image/webp', quality: 0.9 }] } },
+                    sha256: 'upload-hash',
+                },
+                { ...asset, id: 'asset-unhashed', filename: 'old.png', metadata: {} },
+            ],
+        }));
+
+        const raw = await db.assets.get('asset-raw');
+        expect(raw?.sha256).toBe('raw-hash');
+        expect(raw?.sourceSha256).toBe('raw-hash');
+
+        const processed = await db.assets.get('asset-processed');
+        expect(processed?.sha256).toBeUndefined();
+        expect(processed?.sourceSha256).toBe('upload-hash');
+        expect(await db.assets.where('sourceSha256').equals('upload-hash').primaryKeys()).toEqual(['asset-processed']);
+
+        const unhashed = await db.assets.get('asset-unhashed');
+        expect(unhashed).not.toHaveProperty('sourceSha256');
+    });
+
+    it('retypes Vision and Realistic outputs that v6 stored as identity_json', async () => {
+        const output = { type: 'identity_json', mimeType: 'application/json', size: 2, data: '{}', metadata: {}, createdAt };
+        const job = { status: 'completed', promptVersion: '1.0.0', schemaVersion: '1.0.0', inputRefs: [], outputRefs: [], retryCount: 0, createdAt };
+        const db = await upgrade(await seedAt(6, {
+            jobs: [
+                { ...job, id: 'job-grid', module: 'grid_to_json' },
+                { ...job, id: 'job-vision', module: 'vision_to_json' },
+                { ...job, id: 'job-realistic', module: 'realistic_to_json' },
+            ],
+            assets: [
+                { ...output, id: 'out-grid', filename: 'identity_face.png.json', jobId: 'job-grid' },
+                { ...output, id: 'out-vision', filename: 'vision_street.png.json', jobId: 'job-vision' },
+                { ...output, id: 'out-realistic', filename: 'realistic_spec_1.json', jobId: 'job-realistic' },
+                { ...output, id: 'out-orphan', filename: 'vision_old.png.json', jobId: 'job-deleted' },
+            ],
+        }));
+
+        expect(await db.assets.where('type').equals('identity_json').primaryKeys()).toEqual(['out-grid']);
+        expect((await db.assets.where('type').equals('vision_json').primaryKeys()).sort()).toEqual(['out-orphan', 'out-vision']);
+        expect(await db.assets.where('type').equals('realistic_json').primaryKeys()).toEqual(['out-realistic']);
+    });
+});
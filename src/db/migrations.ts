@@ -0,0 +1,199 @@
+/**
+ * Database Migrations
+ * Every schema version in order. Each one lists only the tables whose
+ * indexes change, plus an optional upgrade() that rewrites existing records
+ * into the shapes declared in src/types. Add new versions at the end;
+ * never edit one that has shipped.
+ */
+
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import type { Asset, AssetType, Batch, ImagePreprocessing, Job, ModuleType } from '../types';
+
+export interface Migration {
+    version: number;
+    description: string;
+    /** Dexie index spec for tables added or changed in this version; null drops a table */
+    stores: Record<string, string | null>;
+    upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+/** Fields older code wrote that are not part of the current types */
+type LegacyAsset = Omit<Asset, 'type'> & { type: AssetType | 'source_image'; sizeBytes?: number };
+type LegacyBatch = Batch & { totalJobs?: number; updatedAt?: number };
+
+/**
+ * Bring an asset written by older code into the Asset shape
+ */
+export function normalizeAsset(asset: LegacyAsset): void {
+    if (asset.type === 'source_image') {
+        asset.type = 'input_image';
+    }
+    if (asset.size === undefined) {
+        asset.size = asset.sizeBytes
+            ?? (asset.data instanceof Blob ? asset.data.size : asset.data?.length ?? 0);
+    }
+    delete asset.sizeBytes;
+    if (!asset.metadata) {
+        asset.metadata = {};
+    }
+}
+
+/**
+ * Bring a batch written by older code into the Batch shape
+ */
+export function normalizeBatch(batch: LegacyBatch): void {
+    if (!batch.jobIds) {
+        batch.jobIds = [];
+    }
+    if (batch.imageCount === undefined) {
+        batch.imageCount = batch.totalJobs ?? batch.jobIds.length;
+    }
+    batch.completedJobs ??= 0;
+    batch.failedJobs ??= 0;
+    delete batch.totalJobs;
+    delete batch.updatedAt;
+}
+
+/**
+ * Turn a base64 data URL image into a Blob; thumbnails are generated
+ * lazily afterwards since canvas work cannot run inside an upgrade
+ */
+export function imageDataToBlob(asset: Asset): void {
+    if (typeof asset.data !== 'string' || !asset.data.startsWith('data:image/')) return;
+
+    const match = asset.data.match(/^data:([^;,]+);base64,(.*)$/s);
+    if (!match) return;
+    const bytes = Uint8Array.from(atob(match[2]), ch => ch.charCodeAt(0));
+    asset.data = new Blob([bytes], { type: match[1] });
+    asset.mimeType = match[1];
+    asset.size = bytes.length;
+}
+
+/**
+ * Until v6 `sha256` hashed the uploaded file. Keep that as `sourceSha256`,
+ * and drop `sha256` where preprocessing changed the stored bytes; it is
+ * recomputed when next needed.
+ */
+export function splitAssetHashes(asset: Asset): void {
+    if (!asset.sha256) return;
+    asset.sourceSha256 = asset.sha256;
+    const preprocessing = asset.metadata?.preprocessing as ImagePreprocessing | undefined;
+    if (preprocessing?.transforms?.length) {
+        delete asset.sha256;
+    }
+}
+
+/**
+ * Until v7 the Vision and Realistic pages saved their outputs as
+ * `identity_json`. Retype them by the module of the job that produced them,
+ * or by the filename the page gave them when the job is gone.
+ */
+export function retypeModuleOutput(asset: Asset, jobModules: Map<string, ModuleType>): void {
+    if (asset.type !== 'identity_json') return;
+
+    const module = asset.jobId ? jobModules.get(asset.jobId) : undefined;
+    if (module === 'vision_to_json' || (!module && asset.filename.startsWith('vision_'))) {
+        asset.type = 'vision_json';
+    } else if (module === 'realistic_to_json' || (!module && asset.filename.startsWith('realistic_spec_'))) {
+        asset.type = 'realistic_json';
+    }
+}
+
+/**
+ * Fill in the fields every job is expected to carry
+ */
+export function normalizeJob(job: Job): void {
+    job.inputRefs ??= [];
+    job.outputRefs ??= [];
+    job.retryCount ??= 0;
+}
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Initial schema',
+        stores: {
+            jobs: 'id, module, status, batchId, createdAt',
+            batches: 'id, module, status, createdAt',
+            assets: 'id, type, jobId, batchId, createdAt',
+            prompts: 'id, module, version, isActive, createdAt',
+            settings: 'key'
+        },
+    },
+    {
+        version: 2,
+        description: 'Normalise legacy asset, batch and job fields (source_image, sizeBytes, totalJobs, updatedAt)',
+        stores: {},
+        upgrade: async (tx) => {
+            await tx.table<LegacyAsset>('assets').toCollection().modify(normalizeAsset);
+            await tx.table<LegacyBatch>('batches').toCollection().modify(normalizeBatch);
+            await tx.table<Job>('jobs').toCollection().modify(normalizeJob);
+        },
+    },
+    {
+        version: 3,
+        description: 'Store images as Blobs and add the thumbnails table',
+        stores: {
+            thumbnails: 'assetId'
+        },
+        upgrade: async (tx) => {
+            await tx.table<Asset>('assets').toCollection().modify(imageDataToBlob);
+        },
+    },
+    {
+        version: 4,
+        // Existing assets are not hashed here: WebCrypto is async and would end the upgrade transaction
+        description: 'Index assets by content hash and jobs by input',
+        stores: {
+            jobs: 'id, module, status, batchId, createdAt, *inputRefs',
+            assets: 'id, type, jobId, batchId, createdAt, sha256'
+        },
+    },
+    {
+        version: 5,
+        description: 'Add the job manifests table',
+        stores: {
+            manifests: 'jobId'
+        },
+    },
+    {
+        version: 6,
+        description: 'Index assets by the hash of the uploaded file as well as of the stored bytes',
+        stores: {
+            assets: 'id, type, jobId, batchId, createdAt, sha256, sourceSha256'
+        },
+        upgrade: async (tx) => {
+            await tx.table<Asset>('assets').toCollection().modify(splitAssetHashes);
+        },
+    },
+    {
+        version: 7,
+        description: 'Retype Vision and Realistic outputs saved as identity_json',
+        stores: {},
+        upgrade: async (tx) => {
+            const jobs = await tx.table<Job>('jobs').toArray();
+            const jobModules = new Map(jobs.map(job => [job.id, job.module]));
+            await tx.table<Asset>('assets').where('type').equals('identity_json')
+                .modify(asset => retypeModuleOutput(asset, jobModules));
+        },
+    },
+];
+
+/**
+ * Declare every version on the database, oldest first
+ */
+export function applyMigrations(db: Dexie, migrations: Migration[] = MIGRATIONS): void {
+    for (const migration of migrations) {
+        const version = db.version(migration.version).stores(migration.stores);
+        if (migration.upgrade) {
+            const upgrade = migration.upgrade;
+            version.upgrade(async (tx) => {
+                console.log(`🗄️ Migrating database to v${migration.version}: ${migration.description}`);
+                await upgrade(tx);
+            });
+        }
+    }
+}
+
+export default applyMigrations;
@@ -8,17 +8,26 @@ import {
     Trash2,
     Eye,
     Loader2,
-    RefreshCw
+    RefreshCw,
+    GitCompare,
+    X
 } from 'lucide-react';
 import { assetOperations } from '../../db';
+import { deleteImageAsset } from '../../services/image.service';
+import AssetThumbnail from '../../components/image_viewer/AssetThumbnail';
+import AssetImage from '../../components/image_viewer/AssetImage';
+import JsonDiffDialog from '../../components/json_editor/JsonDiffDialog';
 import type { Asset, AssetType } from '../../types';
 
-type TabId = 'all' | 'source_image' | 'identity_json' | 'panel_json' | 'grid_prompt' | 'generated_image';
+type TabId = 'all' | 'input_image' | 'identity_json' | 'vision_json' | 'realistic_json' | 'panel_json' | 'grid_prompt' | 'generated_image';
 
 export default function Assets() {
     const [activeTab, setActiveTab] = useState<TabId>('all');
     const [assets, setAssets] = useState<Asset[]>([]);
     const [loading, setLoading] = useState(true);
+    const [previewAssetId, setPreviewAssetId] = useState<string | null>(null);
+    // undefined while closed; '' opens the comparison with nothing preselected
+    const [diffBeforeId, setDiffBeforeId] = useState<string | undefined>(undefined);
 
     const loadAssets = async () => {
         setLoading(true);
@@ -46,8 +55,10 @@ export default function Assets() {
 
     const tabs = [
         { id: 'all' as TabId, label: 'All', icon: Package, count: assets.length },
-        { id: 'source_image' as TabId, label: 'Images', icon: ImageIcon, count: getAssetsByType('source_image').length },
+        { id: 'input_image' as TabId, label: 'Images', icon: ImageIcon, count: getAssetsByType('input_image').length },
         { id: 'identity_json' as TabId, label: 'Identity JSON', icon: FileJson, count: getAssetsByType('identity_json').length },
+        { id: 'vision_json' as TabId, label: 'Vision JSON', icon: FileJson, count: getAssetsByType('vision_json').length },
+        { id: 'realistic_json' as TabId, label: 'Realistic JSON', icon: FileJson, count: getAssetsByType('realistic_json').length },
         { id: 'panel_json' as TabId, label: 'Panel JSON', icon: FileJson, count: getAssetsByType('panel_json').length },
         { id: 'grid_prompt' as TabId, label: 'Prompts', icon: Type, count: getAssetsByType('grid_prompt').length },
         { id: 'generated_image' as TabId, label: 'Generated', icon: ImageIcon, count: getAssetsByType('generated_image').length },
@@ -72,10 +83,12 @@ export default function Assets() {
 
     const getAssetIcon = (type: AssetType) => {
         switch (type) {
-            case 'source_image':
+            case 'input_image':
             case 'generated_image':
                 return <ImageIcon size={32} style={{ color: 'var(--color-text-muted)' }} />;
             case 'identity_json':
+            case 'vision_json':
+            case 'realistic_json':
             case 'panel_json':
                 return <FileJson size={32} style={{ color: 'var(--color-accent-primary)' }} />;
             case 'grid_prompt':
@@ -87,7 +100,7 @@ export default function Assets() {
 
     const handleDelete = async (id: string) => {
         try {
-            await assetOperations.delete(id);
+            await deleteImageAsset(id);
             await loadAssets();
         } catch (error) {
             console.error('Failed to delete asset:', error);
@@ -100,15 +113,9 @@ export default function Assets() {
         let blob: Blob;
         let filename = asset.filename || `asset-${asset.id}`;
 
-        if (asset.type === 'source_image' || asset.type === 'generated_image') {
-            // For images stored as base64
-            const byteString = atob(asset.data.split(',')[1] || asset.data);
-            const ab = new ArrayBuffer(byteString.length);
-            const ia = new Uint8Array(ab);
-            for (let i = 0; i < byteString.length; i++) {
-                ia[i] = byteString.charCodeAt(i);
-            }
-            blob = new Blob([ab], { type: asset.mimeType || 'image/png' });
+        if (asset.data instanceof Blob) {
+            // Images are stored as Blobs already
+            blob = asset.data;
         } else {
             // For JSON/text data
             blob = new Blob([asset.data], { type: 'application/json' });
@@ -144,9 +151,14 @@ export default function Assets() {
             <div className="card">
                 <div className="card-header">
                     <h3 className="card-title">{tabs.find(t => t.id === activeTab)?.label}</h3>
-                    <button className="btn btn-ghost" onClick={loadAssets} disabled={loading}>
-                        {loading ? <Loader2 size={16} className="spin" /> : <RefreshCw size={16} />} Refresh
-                    </button>
+                    <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                        <button className="btn btn-ghost" onClick={() => setDiffBeforeId('')} title="Diff two JSON outputs of the same module">
+                            <GitCompare size={16} /> Compare JSON
+                        </button>
+                        <button className="btn btn-ghost" onClick={loadAssets} disabled={loading}>
+                            {loading ? <Loader2 size={16} className="spin" /> : <RefreshCw size={16} />} Refresh
+                        </button>
+                    </div>
                 </div>
                 <div className="card-body">
                     {loading ? (
@@ -184,12 +196,8 @@ export default function Assets() {
                                         marginBottom: 'var(--spacing-md)',
                                         overflow: 'hidden'
                                     }}>
-                                        {(asset.type === 'source_image' || asset.type === 'generated_image') && asset.data ? (
-                                            <img
-                                                src={asset.data.startsWith('data:') ? asset.data : `data:${asset.mimeType};base64,${asset.data}`}
-                                                alt={asset.filename}
-                                                style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
-                                            />
+                                        {asset.mimeType.startsWith('image/') ? (
+                                            <AssetThumbnail assetId={asset.id} iconSize={32} />
                                         ) : (
                                             getAssetIcon(asset.type)
                                         )}
@@ -207,11 +215,31 @@ export default function Assets() {
                                         {asset.filename || `${asset.type}-${asset.id.slice(0, 8)}`}
                                     </div>
                                     <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-sm)' }}>
-                                        {formatSize(asset.sizeBytes)} • {formatTime(asset.createdAt)}
+                                        {formatSize(asset.size)} • {formatTime(asset.createdAt)}
                                     </div>
 
                                     {/* Actions */}
                                     <div style={{ display: 'flex', gap: 'var(--spacing-xs)' }}>
+                                        {asset.mimeType.startsWith('image/') && (
+                                            <button
+                                                className="btn btn-ghost btn-icon"
+                                                style={{ padding: 4 }}
+                                                title="View full size"
+                                                onClick={() => setPreviewAssetId(asset.id)}
+                                            >
+                                                <Eye size={14} />
+                                            </button>
+                                        )}
+                                        {asset.mimeType === 'application/json' && (
+                                            <button
+                                                className="btn btn-ghost btn-icon"
+                                                style={{ padding: 4 }}
+                                                title="Compare with another output"
+                                                onClick={() => setDiffBeforeId(asset.id)}
+                                            >
+                                                <GitCompare size={14} />
+                                            </button>
+                                        )}
                                         <button
                                             className="btn btn-ghost btn-icon"
                                             style={{ padding: 4 }}
@@ -236,6 +264,36 @@ export default function Assets() {
                 </div>
             </div>
 
+            {/* Full-size preview, loaded only when opened */}
+            {previewAssetId && (
+                <div
+                    onClick={() => setPreviewAssetId(null)}
+                    style={{
+                        position: 'fixed',
+                        inset: 0,
+                        zIndex: 200,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        padding: 'var(--spacing-2xl)',
+                        background: 'rgba(0, 0, 0, 0.8)'
+                    }}
+                >
+                    <button
+                        className="btn btn-ghost btn-icon"
+                        style={{ position: 'absolute', top: 'var(--spacing-md)', right: 'var(--spacing-md)' }}
+                        title="Close"
+                    >
+                        <X size={20} />
+                    </button>
+                    <AssetImage assetId={previewAssetId} />
+                </div>
+            )}
+
+            {diffBeforeId !== undefined && (
+                <JsonDiffDialog beforeId={diffBeforeId || undefined} onClose={() => setDiffBeforeId(undefined)} />
+            )}
+
             <style>{`
                 @keyframes spin {
                     from { transform: rotate(0deg); }
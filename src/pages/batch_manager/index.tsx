@@ -11,35 +11,63 @@ import {
     Clock,
     Loader2,
     Trash2,
-    Plus
+    Upload
 } from 'lucide-react';
-import { batchOperations, generateUUID } from '../../db';
-import type { Batch, BatchStatus } from '../../types';
+import { useAppStore } from '../../state';
+import { batchOperations } from '../../db';
+import { saveImageAsset } from '../../services/image.service';
+import { createBatch, startBatch, pauseBatch, resumeBatch, retryFailedJobs } from '../../services/batch.service';
+import { estimateBatchCost, formatCost, type BatchCostEstimate } from '../../services/billing.service';
+import type { Batch, ModuleType } from '../../types';
 
 type TabId = 'active' | 'completed' | 'failed';
 
+const MODULES: ModuleType[] = ['grid_to_json', 'vision_to_json', 'realistic_to_json'];
+
 export default function BatchManager() {
+    const { apiKeyValid } = useAppStore();
     const [activeTab, setActiveTab] = useState<TabId>('active');
     const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
     const [batches, setBatches] = useState<Batch[]>([]);
     const [loading, setLoading] = useState(true);
+    const [newBatchModule, setNewBatchModule] = useState<ModuleType>('grid_to_json');
+    const [creating, setCreating] = useState(false);
+    const [estimates, setEstimates] = useState<Partial<Record<ModuleType, BatchCostEstimate>>>({});
 
-    const loadBatches = async () => {
-        setLoading(true);
+    const loadBatches = async (silent = false) => {
+        if (!silent) setLoading(true);
         try {
             const all = await batchOperations.getAll();
             setBatches(all);
         } catch (error) {
             console.error('Failed to load batches:', error);
         } finally {
-            setLoading(false);
+            if (!silent) setLoading(false);
+        }
+    };
+
+    const loadEstimates = async () => {
+        try {
+            const results = await Promise.all(MODULES.map(module => estimateBatchCost(module, 1)));
+            setEstimates(Object.fromEntries(MODULES.map((module, i) => [module, results[i]])));
+        } catch (error) {
+            console.error('Failed to estimate costs:', error);
         }
     };
 
     useEffect(() => {
         loadBatches();
+        loadEstimates();
     }, []);
 
+    // Poll progress while the scheduler is working on a batch
+    const hasRunningBatch = batches.some(b => b.status === 'running');
+    useEffect(() => {
+        if (!hasRunningBatch) return;
+        const interval = setInterval(() => loadBatches(true), 2000);
+        return () => clearInterval(interval);
+    }, [hasRunningBatch]);
+
     const filteredBatches = batches.filter(batch => {
         if (activeTab === 'active') return batch.status === 'running' || batch.status === 'paused' || batch.status === 'pending';
         if (activeTab === 'completed') return batch.status === 'completed';
@@ -83,9 +111,17 @@ export default function BatchManager() {
         return new Date(timestamp).toLocaleDateString();
     };
 
-    const handleUpdateStatus = async (batchId: string, status: BatchStatus) => {
+    const renderEstimate = (module: ModuleType, imageCount: number) => {
+        const estimate = estimates[module];
+        if (!estimate || estimate.sampleSize === 0) {
+            return 'No cost history for this module yet';
+        }
+        return `Est. ${formatCost(estimate.perJobUsd * imageCount)} for ${imageCount} image${imageCount === 1 ? '' : 's'} (avg of ${estimate.sampleSize} jobs)`;
+    };
+
+    const handleBatchAction = async (batchId: string, action: (id: string) => Promise<unknown>) => {
         try {
-            await batchOperations.update(batchId, { status });
+            await action(batchId);
             await loadBatches();
         } catch (error) {
             console.error('Failed to update batch:', error);
@@ -101,26 +137,63 @@ export default function BatchManager() {
         }
     };
 
-    const handleCreateBatch = async () => {
-        const newBatch: Batch = {
-            id: generateUUID(),
-            module: 'grid_to_json',
-            jobIds: [],
-            totalJobs: 0,
-            completedJobs: 0,
-            failedJobs: 0,
-            status: 'pending',
-            createdAt: Date.now(),
-            updatedAt: Date.now()
-        };
+    const handleCreateBatch = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []).filter(f => f.type.startsWith('image/'));
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        setCreating(true);
         try {
-            await batchOperations.create(newBatch);
+            const inputRefs: string[] = [];
+            for (const file of files) {
+                const asset = await saveImageAsset(file);
+                inputRefs.push(asset.id);
+            }
+
+            const batch = await createBatch(newBatchModule, inputRefs);
+            await startBatch(batch.id);
+            setActiveTab('active');
             await loadBatches();
         } catch (error) {
             console.error('Failed to create batch:', error);
+        } finally {
+            setCreating(false);
         }
     };
 
+    const newBatchControls = (
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'center', justifyContent: 'center' }}>
+            <select
+                className="input"
+                style={{ width: 'auto' }}
+                value={newBatchModule}
+                onChange={(e) => setNewBatchModule(e.target.value as ModuleType)}
+            >
+                <option value="grid_to_json">Grid-to-JSON</option>
+                <option value="vision_to_json">Vision-to-JSON</option>
+                <option value="realistic_to_json">Realistic-to-JSON</option>
+            </select>
+            <label
+                className="btn btn-primary"
+                style={{ cursor: apiKeyValid && !creating ? 'pointer' : 'not-allowed', opacity: apiKeyValid && !creating ? 1 : 0.5 }}
+                title={apiKeyValid ? 'Select images to process' : 'Configure your API key in Settings first'}
+            >
+                <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={handleCreateBatch}
+                    disabled={!apiKeyValid || creating}
+                    style={{ display: 'none' }}
+                />
+                {creating ? <Loader2 size={16} className="spin" /> : <Upload size={16} />} New Batch
+            </label>
+            <span style={{ fontSize: '13px', color: 'var(--color-text-muted)' }}>
+                {renderEstimate(newBatchModule, 1)}
+            </span>
+        </div>
+    );
+
     return (
         <div className="batch-manager-page fade-in">
             <div className="tabs">
@@ -150,22 +223,18 @@ export default function BatchManager() {
                         <div style={{ fontSize: '14px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-lg)' }}>
                             Create a batch to process multiple images at once
                         </div>
-                        <button className="btn btn-primary" onClick={handleCreateBatch}>
-                            <Plus size={16} /> Create New Batch
-                        </button>
+                        {newBatchControls}
                     </div>
                 </div>
             ) : (
                 <>
                     <div style={{ marginBottom: 'var(--spacing-md)', display: 'flex', justifyContent: 'flex-end' }}>
-                        <button className="btn btn-primary" onClick={handleCreateBatch}>
-                            <Plus size={16} /> New Batch
-                        </button>
+                        {newBatchControls}
                     </div>
                     <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
                         {filteredBatches.map(batch => {
-                            const progress = batch.totalJobs > 0
-                                ? Math.round((batch.completedJobs / batch.totalJobs) * 100)
+                            const progress = batch.imageCount > 0
+                                ? Math.round((batch.completedJobs / batch.imageCount) * 100)
                                 : 0;
 
                             return (
@@ -183,7 +252,12 @@ export default function BatchManager() {
                                             <span style={{ color: 'var(--color-text-secondary)' }}>
                                                 {getModuleLabel(batch.module)}
                                             </span>
-                                            <span className="badge badge-info">{batch.totalJobs} jobs</span>
+                                            <span className="badge badge-info">{batch.imageCount} jobs</span>
+                                            {batch.usage && batch.usage.totalTokens > 0 && (
+                                                <span className="badge" title={`${batch.usage.totalTokens.toLocaleString()} tokens${batch.usage.estimated ? ' (partly estimated)' : ''}`}>
+                                                    {batch.usage.estimated ? '~' : ''}{formatCost(batch.usage.costUsd)}
+                                                </span>
+                                            )}
                                         </div>
                                         <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-md)' }}>
                                             <span style={{ color: 'var(--color-text-muted)', fontSize: '13px' }}>
@@ -203,7 +277,7 @@ export default function BatchManager() {
                                     <div style={{ padding: '0 var(--spacing-lg) var(--spacing-lg)' }}>
                                         <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 'var(--spacing-xs)', fontSize: '13px' }}>
                                             <span>Progress</span>
-                                            <span>{batch.completedJobs}/{batch.totalJobs} ({progress}%)</span>
+                                            <span>{batch.completedJobs}/{batch.imageCount} ({progress}%)</span>
                                         </div>
                                         <div style={{ height: 8, background: 'var(--color-bg-tertiary)', borderRadius: 'var(--radius-full)' }}>
                                             <div
@@ -226,11 +300,31 @@ export default function BatchManager() {
                                     {/* Expanded Content */}
                                     {expandedBatchId === batch.id && (
                                         <div className="card-body" style={{ borderTop: '1px solid var(--color-border)' }}>
+                                            <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)', marginBottom: 'var(--spacing-md)' }}>
+                                                {batch.usage && batch.usage.totalTokens > 0 && (
+                                                    <div>
+                                                        Spent {batch.usage.estimated ? '~' : ''}{formatCost(batch.usage.costUsd)} on {batch.usage.inputTokens.toLocaleString()} input
+                                                        + {batch.usage.outputTokens.toLocaleString()} output tokens{batch.usage.estimated ? ' (partly estimated from text length)' : ''}
+                                                    </div>
+                                                )}
+                                                <div style={{ color: 'var(--color-text-muted)' }}>
+                                                    {renderEstimate(batch.module, batch.imageCount)}
+                                                </div>
+                                            </div>
                                             <div style={{ display: 'flex', gap: 'var(--spacing-md)' }}>
+                                                {batch.status === 'pending' && (
+                                                    <button
+                                                        className="btn btn-primary"
+                                                        onClick={() => handleBatchAction(batch.id, startBatch)}
+                                                        disabled={!apiKeyValid}
+                                                    >
+                                                        <Play size={16} /> Start
+                                                    </button>
+                                                )}
                                                 {batch.status === 'running' && (
                                                     <button
                                                         className="btn btn-secondary"
-                                                        onClick={() => handleUpdateStatus(batch.id, 'paused')}
+                                                        onClick={() => handleBatchAction(batch.id, pauseBatch)}
                                                     >
                                                         <Pause size={16} /> Pause
                                                     </button>
@@ -238,7 +332,7 @@ export default function BatchManager() {
                                                 {batch.status === 'paused' && (
                                                     <button
                                                         className="btn btn-primary"
-                                                        onClick={() => handleUpdateStatus(batch.id, 'running')}
+                                                        onClick={() => handleBatchAction(batch.id, resumeBatch)}
                                                     >
                                                         <Play size={16} /> Resume
                                                     </button>
@@ -246,7 +340,7 @@ export default function BatchManager() {
                                                 {batch.status === 'failed' && (
                                                     <button
                                                         className="btn btn-primary"
-                                                        onClick={() => handleUpdateStatus(batch.id, 'pending')}
+                                                        onClick={() => handleBatchAction(batch.id, retryFailedJobs)}
                                                     >
                                                         <RefreshCw size={16} /> Retry Failed
                                                     </button>
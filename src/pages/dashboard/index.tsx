@@ -14,6 +14,10 @@ import {
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { getJobStats, getAllJobs } from '../../services/job.service';
+import { getSpendByModuleAndDay, formatCost, type SpendRow } from '../../services/billing.service';
+import { getModelHealth, isInitialized } from '../../services/ai.service';
+import type { CircuitState, ModelHealthSnapshot } from '../../services/modelHealth.service';
+import StorageUsage from '../../components/common/StorageUsage';
 import type { Job } from '../../types';
 
 type TabId = 'overview' | 'health' | 'activity';
@@ -32,16 +36,20 @@ export default function Dashboard() {
     const [loading, setLoading] = useState(true);
     const [stats, setStats] = useState<DashboardStats>({ total: 0, pending: 0, running: 0, completed: 0, failed: 0 });
     const [recentJobs, setRecentJobs] = useState<Job[]>([]);
+    const [spend, setSpend] = useState<SpendRow[]>([]);
+    const [modelHealth, setModelHealth] = useState<ModelHealthSnapshot[] | null>(null);
 
     const loadData = async () => {
         setLoading(true);
         try {
-            const [statsData, jobsData] = await Promise.all([
+            const [statsData, jobsData, spendData] = await Promise.all([
                 getJobStats(),
-                getAllJobs(10)
+                getAllJobs(10),
+                getSpendByModuleAndDay()
             ]);
             setStats(statsData);
             setRecentJobs(jobsData);
+            setSpend(spendData);
         } catch (error) {
             console.error('Failed to load dashboard data:', error);
         } finally {
@@ -53,12 +61,35 @@ export default function Dashboard() {
         loadData();
     }, []);
 
+    // Circuit state lives in memory, so poll it while the health tab is open
+    useEffect(() => {
+        if (activeTab !== 'health') return;
+
+        const checkHealth = () => setModelHealth(isInitialized() ? getModelHealth() : null);
+        checkHealth();
+        const interval = setInterval(checkHealth, 2000);
+        return () => clearInterval(interval);
+    }, [activeTab]);
+
     const tabs = [
         { id: 'overview' as TabId, label: 'Overview' },
         { id: 'health' as TabId, label: 'System Health' },
         { id: 'activity' as TabId, label: 'Activity' },
     ];
 
+    const getCircuitBadge = (state: CircuitState) => {
+        switch (state) {
+            case 'closed': return <span className="badge badge-success">Healthy</span>;
+            case 'half_open': return <span className="badge badge-warning">Probing</span>;
+            case 'open': return <span className="badge badge-error">Cooling down</span>;
+        }
+    };
+
+    const healthyModels = modelHealth?.filter(m => m.state === 'closed').length ?? 0;
+    const workersIndicator = !modelHealth ? 'pending'
+        : healthyModels === modelHealth.length ? 'completed'
+            : healthyModels > 0 ? 'running' : 'failed';
+
     const getStatusBadge = (status: string) => {
         switch (status) {
             case 'completed': return <span className="badge badge-success">Completed</span>;
@@ -176,6 +207,51 @@ export default function Dashboard() {
                         </div>
                     </div>
 
+                    {/* Spend Table */}
+                    <div className="card" style={{ marginBottom: 'var(--spacing-xl)' }}>
+                        <div className="card-header">
+                            <h3 className="card-title">Spend (last 14 days)</h3>
+                            <span style={{ fontFamily: 'var(--font-mono)', fontWeight: 600 }}>
+                                {spend.some(row => row.estimated) ? '~' : ''}{formatCost(spend.reduce((sum, row) => sum + row.costUsd, 0))}
+                            </span>
+                        </div>
+                        <div className="card-body" style={{ padding: 0 }}>
+                            {spend.length === 0 ? (
+                                <div style={{ padding: 'var(--spacing-xl)', textAlign: 'center', color: 'var(--color-text-muted)' }}>
+                                    No token usage recorded yet. Prices come from configs/billing.yaml.
+                                </div>
+                            ) : (
+                                <table className="table">
+                                    <thead>
+                                        <tr>
+                                            <th>Day</th>
+                                            <th>Module</th>
+                                            <th>Jobs</th>
+                                            <th>Tokens</th>
+                                            <th>Cost</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {spend.map((row) => (
+                                            <tr key={`${row.day}-${row.module}`}>
+                                                <td style={{ fontFamily: 'var(--font-mono)', fontSize: '13px' }}>{row.day}</td>
+                                                <td>{getModuleLabel(row.module)}</td>
+                                                <td>{row.jobs}</td>
+                                                <td style={{ color: 'var(--color-text-secondary)' }}>{row.totalTokens.toLocaleString()}</td>
+                                                <td
+                                                    style={{ fontFamily: 'var(--font-mono)', fontSize: '13px' }}
+                                                    title={row.estimated ? 'Includes jobs whose API reported no token counts; estimated from text length' : undefined}
+                                                >
+                                                    {row.estimated ? '~' : ''}{formatCost(row.costUsd)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    </div>
+
                     {/* Quick Actions */}
                     <div className="card">
                         <div className="card-header">
@@ -227,17 +303,77 @@ export default function Dashboard() {
                                 </div>
                                 <div className="card" style={{ padding: 'var(--spacing-lg)', background: 'var(--color-bg-tertiary)' }}>
                                     <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-sm)' }}>
-                                        <span className="status-indicator idle"></span>
+                                        <span className={`status-indicator ${workersIndicator}`}></span>
                                         <span style={{ fontWeight: 500 }}>AI Workers</span>
                                     </div>
                                     <div style={{ color: 'var(--color-text-secondary)', fontSize: '14px' }}>
-                                        Ready (need API key)
+                                        {modelHealth
+                                            ? `${healthyModels}/${modelHealth.length} models healthy`
+                                            : 'Not connected (need API key)'}
                                     </div>
                                 </div>
                             </div>
                         </div>
                     </div>
 
+                    {/* Model Health */}
+                    {modelHealth && (
+                        <div className="card" style={{ marginBottom: 'var(--spacing-xl)' }}>
+                            <div className="card-header">
+                                <h3 className="card-title">Model Health</h3>
+                            </div>
+                            <div className="card-body" style={{ padding: 0 }}>
+                                <table className="table">
+                                    <thead>
+                                        <tr>
+                                            <th>Priority</th>
+                                            <th>Model</th>
+                                            <th>State</th>
+                                            <th>Error Rate</th>
+                                            <th>Cooldown</th>
+                                            <th>Last Error</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {modelHealth.map((m, i) => (
+                                            <tr key={m.model}>
+                                                <td>{i + 1}</td>
+                                                <td><code>{m.model}</code></td>
+                                                <td>{getCircuitBadge(m.state)}</td>
+                                                <td>
+                                                    {m.calls > 0 ? `${Math.round(m.errorRate * 100)}%` : '—'}
+                                                    <span style={{ color: 'var(--color-text-muted)', fontSize: '12px', marginLeft: 'var(--spacing-xs)' }}>
+                                                        ({m.calls} calls)
+                                                    </span>
+                                                </td>
+                                                <td>
+                                                    {m.retryAt
+                                                        ? `${Math.max(0, Math.ceil((m.retryAt - Date.now()) / 1000))}s`
+                                                        : '—'}
+                                                </td>
+                                                <td style={{ maxWidth: '280px', color: 'var(--color-text-secondary)', fontSize: '12px' }} title={m.lastError}>
+                                                    {m.lastError
+                                                        ? `${new Date(m.lastFailureAt ?? 0).toLocaleTimeString()} · ${m.lastError.slice(0, 80)}`
+                                                        : '—'}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Storage */}
+                    <div className="card" style={{ marginBottom: 'var(--spacing-xl)' }}>
+                        <div className="card-header">
+                            <h3 className="card-title">Storage</h3>
+                        </div>
+                        <div className="card-body">
+                            <StorageUsage />
+                        </div>
+                    </div>
+
                     {/* Queue Depth */}
                     <div className="card">
                         <div className="card-header">
@@ -8,20 +8,87 @@ import {
     FileJson,
     Image as ImageIcon,
     Loader2,
-    Trash2
+    Trash2,
+    Download,
+    Repeat,
+    GitCompare,
+    X
 } from 'lucide-react';
-import { getAllJobs, getJobsByStatus, retryJob } from '../../services/job.service';
+import { getAllJobs, getJobsByStatus, cancelJob } from '../../services/job.service';
 import { jobOperations } from '../../db';
-import type { Job, JobStatus } from '../../types';
+import { formatCost } from '../../services/billing.service';
+import { getManifest, type ManifestInputAsset } from '../../services/manifest.service';
+import { rerunJob, retryJob } from '../../services/jobRunner.service';
+import { updateBatchProgress } from '../../services/batch.service';
+import { getPromptVersions } from '../../services/promptBrain.service';
+import { useAppStore } from '../../state';
+import AssetThumbnail from '../../components/image_viewer/AssetThumbnail';
+import AssetImage from '../../components/image_viewer/AssetImage';
+import JobOutputComparison from '../../components/json_editor/JobOutputComparison';
+import JsonDiffDialog from '../../components/json_editor/JsonDiffDialog';
+import type { AIErrorKind, Job, JobManifest, JobStatus, PromptVersion, UUID } from '../../types';
 
 type TabId = 'all' | 'running' | 'failed';
 
+const ERROR_KINDS: Record<AIErrorKind, { label: string; guidance: string }> = {
+    auth: {
+        label: 'Auth',
+        guidance: 'The API key was rejected or has no access to this model. Check the key and model chain in Settings, then retry.',
+    },
+    quota: {
+        label: 'Quota',
+        guidance: 'The provider rate limit or quota was hit. Wait for the window to reset, lower batch concurrency, or add a fallback model.',
+    },
+    safety: {
+        label: 'Safety block',
+        guidance: 'The model refused this input. Retrying will not help; use a different image or adjust the prompt.',
+    },
+    invalid_input: {
+        label: 'Invalid input',
+        guidance: 'The request was rejected as malformed, e.g. an oversized or unsupported image. Resize or convert the input and run it again.',
+    },
+    parse: {
+        label: 'Parse',
+        guidance: 'The model answered but no JSON could be recovered. Retry, or enable auto-repair in Settings.',
+    },
+    transient: {
+        label: 'Transient',
+        guidance: 'The provider was overloaded or the network dropped. Retrying usually succeeds.',
+    },
+    unknown: {
+        label: 'Unknown',
+        guidance: 'The failure could not be classified. See the error message for details.',
+    },
+};
+
+// Jobs that failed before error kinds were recorded count as unknown
+const getErrorKind = (job: Job): AIErrorKind => job.errorKind ?? 'unknown';
+
+// Jobs started from text keep a snippet of it in inputRefs instead of an asset id
+const ASSET_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const getInputAssetIds = (job: Job): string[] => job.inputRefs.filter(ref => ASSET_ID_PATTERN.test(ref));
+
+const getManifestInputs = (manifest: JobManifest): ManifestInputAsset[] =>
+    Array.isArray(manifest.inputSnapshot.assets) ? manifest.inputSnapshot.assets : [];
+
 export default function Jobs() {
     const [activeTab, setActiveTab] = useState<TabId>('all');
     const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
     const [jobs, setJobs] = useState<Job[]>([]);
     const [loading, setLoading] = useState(true);
     const [retrying, setRetrying] = useState(false);
+    const [errorKindFilter, setErrorKindFilter] = useState<AIErrorKind | 'all'>('all');
+    const [openInputId, setOpenInputId] = useState<string | null>(null);
+    const [manifest, setManifest] = useState<JobManifest | null>(null);
+    const { apiKeyValid, providerSettings } = useAppStore();
+    const [rerunOpen, setRerunOpen] = useState(false);
+    const [rerunPromptVersion, setRerunPromptVersion] = useState('');
+    const [rerunModel, setRerunModel] = useState('');
+    const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+    const [rerunning, setRerunning] = useState(false);
+    const [rerunError, setRerunError] = useState<string | null>(null);
+    const [comparison, setComparison] = useState<{ originalId: UUID; rerunId: UUID } | null>(null);
+    const [diffAssets, setDiffAssets] = useState<{ beforeId?: UUID; afterId?: UUID } | null>(null);
 
     const loadJobs = async () => {
         setLoading(true);
@@ -39,7 +106,25 @@ export default function Jobs() {
         loadJobs();
     }, []);
 
+    useEffect(() => {
+        setRerunOpen(false);
+    }, [selectedJobId]);
+
+    // Reloaded with the job list so the answering model shows up once a job completes
+    useEffect(() => {
+        if (!selectedJobId) {
+            setManifest(null);
+            return;
+        }
+        let cancelled = false;
+        getManifest(selectedJobId)
+            .then(result => { if (!cancelled) setManifest(result); })
+            .catch(error => console.error('Failed to load job manifest:', error));
+        return () => { cancelled = true; };
+    }, [selectedJobId, jobs]);
+
     const filteredJobs = jobs.filter(job => {
+        if (errorKindFilter !== 'all' && (job.status !== 'failed' || getErrorKind(job) !== errorKindFilter)) return false;
         if (activeTab === 'running') return job.status === 'running' || job.status === 'pending';
         if (activeTab === 'failed') return job.status === 'failed';
         return true;
@@ -57,6 +142,7 @@ export default function Jobs() {
             case 'running': return <span className="badge badge-info">Running</span>;
             case 'failed': return <span className="badge badge-error">Failed</span>;
             case 'pending': return <span className="badge badge-warning">Pending</span>;
+            case 'cancelled': return <span className="badge">Cancelled</span>;
             default: return null;
         }
     };
@@ -81,12 +167,16 @@ export default function Jobs() {
     };
 
     const selectedJob = jobs.find(j => j.id === selectedJobId);
+    const parentJob = selectedJob?.parentJobId ? jobs.find(j => j.id === selectedJob.parentJobId) : undefined;
+    const comparedOriginal = comparison ? jobs.find(j => j.id === comparison.originalId) : undefined;
+    const comparedRerun = comparison ? jobs.find(j => j.id === comparison.rerunId) : undefined;
 
     const handleRetry = async () => {
         if (!selectedJobId) return;
         setRetrying(true);
         try {
-            await retryJob(selectedJobId);
+            const job = await retryJob(selectedJobId);
+            if (job.batchId) await updateBatchProgress(job.batchId);
             await loadJobs();
         } catch (error) {
             console.error('Failed to retry job:', error);
@@ -95,6 +185,57 @@ export default function Jobs() {
         }
     };
 
+    const handleCancel = async (jobId: string) => {
+        try {
+            await cancelJob(jobId);
+            await loadJobs();
+        } catch (error) {
+            console.error('Failed to cancel job:', error);
+        }
+    };
+
+    const openRerun = async (job: Job) => {
+        setRerunOpen(true);
+        setRerunPromptVersion('');
+        setRerunModel('');
+        setRerunError(null);
+        try {
+            setPromptVersions(await getPromptVersions(job.module));
+        } catch (error) {
+            console.error('Failed to load prompt versions:', error);
+        }
+    };
+
+    const handleRerun = async (job: Job) => {
+        setRerunning(true);
+        setRerunError(null);
+        try {
+            const rerun = await rerunJob(job.id, {
+                promptVersion: rerunPromptVersion || undefined,
+                model: rerunModel || undefined,
+            });
+            await loadJobs();
+            setRerunOpen(false);
+            setSelectedJobId(rerun.id);
+            setComparison({ originalId: job.id, rerunId: rerun.id });
+        } catch (error) {
+            setRerunError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setRerunning(false);
+        }
+    };
+
+    const handleDownloadManifest = () => {
+        if (!manifest) return;
+        const blob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `job_${manifest.jobId}_manifest.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
     const handleDelete = async (jobId: string) => {
         try {
             await jobOperations.delete(jobId);
@@ -125,9 +266,25 @@ export default function Jobs() {
                 <div className="card">
                     <div className="card-header">
                         <h3 className="card-title">Jobs</h3>
-                        <button className="btn btn-ghost" onClick={loadJobs} disabled={loading}>
-                            {loading ? <Loader2 size={16} className="spin" /> : <RefreshCw size={16} />} Refresh
-                        </button>
+                        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'center' }}>
+                            <select
+                                className="input"
+                                style={{ width: 'auto' }}
+                                value={errorKindFilter}
+                                onChange={(e) => setErrorKindFilter(e.target.value as AIErrorKind | 'all')}
+                                title="Show failed jobs of one error kind"
+                            >
+                                <option value="all">All errors</option>
+                                {(Object.keys(ERROR_KINDS) as AIErrorKind[]).map(kind => (
+                                    <option key={kind} value={kind}>
+                                        {ERROR_KINDS[kind].label} ({jobs.filter(j => j.status === 'failed' && getErrorKind(j) === kind).length})
+                                    </option>
+                                ))}
+                            </select>
+                            <button className="btn btn-ghost" onClick={loadJobs} disabled={loading}>
+                                {loading ? <Loader2 size={16} className="spin" /> : <RefreshCw size={16} />} Refresh
+                            </button>
+                        </div>
                     </div>
                     <div className="card-body" style={{ padding: 0 }}>
                         {loading ? (
@@ -162,7 +319,14 @@ export default function Jobs() {
                                         >
                                             <td style={{ fontFamily: 'var(--font-mono)', fontSize: '13px' }}>{job.id.slice(0, 8)}...</td>
                                             <td>{getModuleLabel(job.module)}</td>
-                                            <td>{getStatusBadge(job.status)}</td>
+                                            <td>
+                                                {getStatusBadge(job.status)}
+                                                {job.status === 'failed' && (
+                                                    <span className="badge" style={{ marginLeft: 'var(--spacing-xs)' }}>
+                                                        {ERROR_KINDS[getErrorKind(job)].label}
+                                                    </span>
+                                                )}
+                                            </td>
                                             <td style={{ fontFamily: 'var(--font-mono)', fontSize: '12px' }}>{job.promptVersion}</td>
                                             <td style={{ color: 'var(--color-text-muted)', fontSize: '13px' }}>{formatTime(job.createdAt)}</td>
                                         </tr>
@@ -191,6 +355,77 @@ export default function Jobs() {
                                     <div>{getModuleLabel(selectedJob.module)}</div>
                                 </div>
 
+                                {selectedJob.parentJobId && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>RE-RUN OF</div>
+                                        {parentJob ? (
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                                                <button
+                                                    className="btn btn-ghost"
+                                                    style={{ fontFamily: 'var(--font-mono)', fontSize: '13px', padding: 0 }}
+                                                    onClick={() => setSelectedJobId(parentJob.id)}
+                                                >
+                                                    {parentJob.id.slice(0, 8)}...
+                                                </button>
+                                                <button
+                                                    className="btn btn-ghost btn-icon"
+                                                    onClick={() => setComparison({ originalId: parentJob.id, rerunId: selectedJob.id })}
+                                                    title="Compare outputs side by side"
+                                                >
+                                                    <GitCompare size={16} />
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div style={{ fontFamily: 'var(--font-mono)', fontSize: '13px', color: 'var(--color-text-muted)' }}>
+                                                {selectedJob.parentJobId.slice(0, 8)}... (deleted)
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {getInputAssetIds(selectedJob).length > 0 && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>INPUT</div>
+                                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-sm)' }}>
+                                            {getInputAssetIds(selectedJob).map(ref => (
+                                                <button
+                                                    key={ref}
+                                                    onClick={() => setOpenInputId(openInputId === ref ? null : ref)}
+                                                    title="Show full image"
+                                                    style={{
+                                                        width: 64,
+                                                        height: 64,
+                                                        padding: 0,
+                                                        background: 'var(--color-bg-tertiary)',
+                                                        border: `1px solid ${openInputId === ref ? 'var(--color-accent-primary)' : 'var(--color-border)'}`,
+                                                        borderRadius: 'var(--radius-sm)',
+                                                        display: 'flex',
+                                                        alignItems: 'center',
+                                                        justifyContent: 'center',
+                                                        overflow: 'hidden',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    <AssetThumbnail assetId={ref} />
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {openInputId && selectedJob.inputRefs.includes(openInputId) && (
+                                            <div style={{
+                                                marginTop: 'var(--spacing-sm)',
+                                                maxHeight: 320,
+                                                display: 'flex',
+                                                justifyContent: 'center',
+                                                background: 'var(--color-bg-tertiary)',
+                                                borderRadius: 'var(--radius-md)',
+                                                overflow: 'hidden'
+                                            }}>
+                                                <AssetImage assetId={openInputId} style={{ maxHeight: 320 }} />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
                                 <div style={{ marginBottom: 'var(--spacing-lg)' }}>
                                     <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>STATUS</div>
                                     {getStatusBadge(selectedJob.status)}
@@ -201,6 +436,35 @@ export default function Jobs() {
                                     <div style={{ fontFamily: 'var(--font-mono)' }}>{selectedJob.promptVersion}</div>
                                 </div>
 
+                                {selectedJob.usage && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>USAGE</div>
+                                        <div style={{ fontFamily: 'var(--font-mono)', fontSize: '13px' }}>
+                                            {selectedJob.usage.model}
+                                            {selectedJob.usage.apiKeyName && (
+                                                <span style={{ fontFamily: 'var(--font-family)', color: 'var(--color-text-muted)' }}> · key "{selectedJob.usage.apiKeyName}"</span>
+                                            )}
+                                        </div>
+                                        <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)' }}>
+                                            {selectedJob.usage.inputTokens.toLocaleString()} in / {selectedJob.usage.outputTokens.toLocaleString()} out
+                                            · {selectedJob.usage.attempts} attempt{selectedJob.usage.attempts === 1 ? '' : 's'}
+                                            · {formatCost(selectedJob.usage.costUsd)}
+                                            {selectedJob.usage.estimated && (
+                                                <span className="badge badge-warning" style={{ marginLeft: 'var(--spacing-sm)' }} title="The API reported no token counts; estimated from text length">
+                                                    Estimated
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {selectedJob.outputMode && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>OUTPUT MODE</div>
+                                        <div>{selectedJob.outputMode === 'structured' ? 'Native JSON (response schema)' : 'Text extraction'}</div>
+                                    </div>
+                                )}
+
                                 <div style={{ marginBottom: 'var(--spacing-lg)' }}>
                                     <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>CREATED</div>
                                     <div>{new Date(selectedJob.createdAt).toLocaleString()}</div>
@@ -208,7 +472,10 @@ export default function Jobs() {
 
                                 {selectedJob.error && (
                                     <div style={{ marginBottom: 'var(--spacing-lg)' }}>
-                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>ERROR</div>
+                                        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', marginBottom: 4 }}>
+                                            <span style={{ fontSize: '12px', color: 'var(--color-text-muted)' }}>ERROR</span>
+                                            <span className="badge badge-error">{ERROR_KINDS[getErrorKind(selectedJob)].label}</span>
+                                        </div>
                                         <div style={{
                                             background: 'rgba(239, 68, 68, 0.1)',
                                             border: '1px solid rgba(239, 68, 68, 0.3)',
@@ -219,6 +486,49 @@ export default function Jobs() {
                                         }}>
                                             {selectedJob.error}
                                         </div>
+                                        <div style={{ fontSize: '13px', color: 'var(--color-text-secondary)', marginTop: 'var(--spacing-sm)' }}>
+                                            {ERROR_KINDS[getErrorKind(selectedJob)].guidance}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {selectedJob.extraction && selectedJob.extraction.repairs.length > 0 && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>OUTPUT AUTO-FIXED</div>
+                                        <div style={{ display: 'flex', gap: 'var(--spacing-xs)', flexWrap: 'wrap' }}>
+                                            {selectedJob.extraction.truncated && (
+                                                <span className="badge badge-error">Truncated</span>
+                                            )}
+                                            {selectedJob.extraction.repairs.map(repair => (
+                                                <span key={repair} className="badge badge-warning">{repair.replace(/_/g, ' ')}</span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {selectedJob.validation && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 4 }}>SCHEMA VALIDATION</div>
+                                        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', marginBottom: 4 }}>
+                                            {selectedJob.validation.valid
+                                                ? <span className="badge badge-success">Valid</span>
+                                                : <span className="badge badge-warning">{selectedJob.validation.violations.length} violation(s)</span>}
+                                            <span style={{ fontFamily: 'var(--font-mono)', fontSize: '12px', color: 'var(--color-text-muted)' }}>
+                                                {selectedJob.validation.schemaId}
+                                            </span>
+                                            {selectedJob.validation.repairAttempted && (
+                                                <span className="badge badge-info">Repair attempted</span>
+                                            )}
+                                        </div>
+                                        {selectedJob.validation.violations.length > 0 && (
+                                            <ul style={{ margin: 0, paddingLeft: 'var(--spacing-lg)', fontSize: '12px', lineHeight: 1.6 }}>
+                                                {selectedJob.validation.violations.map((v, i) => (
+                                                    <li key={i}>
+                                                        <code>{v.path || '/'}</code> {v.message}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
                                     </div>
                                 )}
 
@@ -227,16 +537,168 @@ export default function Jobs() {
                                     <div>{selectedJob.retryCount}</div>
                                 </div>
 
+                                {manifest && (
+                                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 }}>
+                                            <span style={{ fontSize: '12px', color: 'var(--color-text-muted)' }}>MANIFEST</span>
+                                            <button
+                                                className="btn btn-ghost btn-icon"
+                                                onClick={handleDownloadManifest}
+                                                title="Download manifest JSON"
+                                            >
+                                                <Download size={16} />
+                                            </button>
+                                        </div>
+                                        <table className="table" style={{ fontSize: '13px', marginBottom: 'var(--spacing-sm)' }}>
+                                            <tbody>
+                                                <tr>
+                                                    <td style={{ color: 'var(--color-text-muted)' }}>Model</td>
+                                                    <td style={{ fontFamily: 'var(--font-mono)' }}>{manifest.model ?? 'Not recorded yet'}</td>
+                                                </tr>
+                                                {Object.entries(manifest.config).map(([key, value]) => (
+                                                    <tr key={key}>
+                                                        <td style={{ color: 'var(--color-text-muted)' }}>{key}</td>
+                                                        <td style={{ fontFamily: 'var(--font-mono)', wordBreak: 'break-all' }}>
+                                                            {Array.isArray(value) ? value.join(' → ') : String(value)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                                <tr>
+                                                    <td style={{ color: 'var(--color-text-muted)' }}>App version</td>
+                                                    <td style={{ fontFamily: 'var(--font-mono)' }}>{manifest.appVersion}</td>
+                                                </tr>
+                                            </tbody>
+                                        </table>
+                                        {getManifestInputs(manifest).map(input => (
+                                            <div key={input.id} style={{ fontSize: '12px', marginBottom: 4 }}>
+                                                <span>{input.filename}</span>
+                                                <div style={{ fontFamily: 'var(--font-mono)', color: 'var(--color-text-muted)', wordBreak: 'break-all' }}>
+                                                    sha256 {input.sha256}
+                                                </div>
+                                            </div>
+                                        ))}
+                                        {typeof manifest.inputSnapshot.text === 'string' && (
+                                            <details style={{ fontSize: '13px', marginBottom: 'var(--spacing-sm)' }}>
+                                                <summary style={{ cursor: 'pointer' }}>Input text</summary>
+                                                <div className="json-editor" style={{ maxHeight: 240 }}>
+                                                    <pre style={{ whiteSpace: 'pre-wrap' }}>{manifest.inputSnapshot.text}</pre>
+                                                </div>
+                                            </details>
+                                        )}
+                                        <details style={{ fontSize: '13px', marginBottom: 'var(--spacing-sm)' }}>
+                                            <summary style={{ cursor: 'pointer' }}>Prompt text ({manifest.promptSnapshot.length.toLocaleString()} chars)</summary>
+                                            <div className="json-editor" style={{ maxHeight: 320 }}>
+                                                <pre style={{ whiteSpace: 'pre-wrap' }}>{manifest.promptSnapshot}</pre>
+                                            </div>
+                                        </details>
+                                        <details style={{ fontSize: '13px' }}>
+                                            <summary style={{ cursor: 'pointer' }}>Output schema</summary>
+                                            <div className="json-editor" style={{ maxHeight: 320 }}>
+                                                <pre>{manifest.schemaSnapshot}</pre>
+                                            </div>
+                                        </details>
+                                    </div>
+                                )}
+
+                                {rerunOpen && (
+                                    <div style={{
+                                        marginBottom: 'var(--spacing-lg)',
+                                        padding: 'var(--spacing-md)',
+                                        background: 'var(--color-bg-tertiary)',
+                                        borderRadius: 'var(--radius-md)'
+                                    }}>
+                                        <div style={{ fontSize: '12px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-sm)' }}>RE-RUN</div>
+                                        <label style={{ display: 'block', fontSize: '13px', marginBottom: 4 }}>Prompt</label>
+                                        <select
+                                            className="input"
+                                            value={rerunPromptVersion}
+                                            onChange={(e) => setRerunPromptVersion(e.target.value)}
+                                            style={{ marginBottom: 'var(--spacing-sm)' }}
+                                        >
+                                            <option value="">As recorded (v{selectedJob.promptVersion})</option>
+                                            {promptVersions.map(prompt => (
+                                                <option key={prompt.id} value={prompt.version}>
+                                                    v{prompt.version}{prompt.isActive ? ' (active)' : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <label style={{ display: 'block', fontSize: '13px', marginBottom: 4 }}>Model</label>
+                                        <select
+                                            className="input"
+                                            value={rerunModel}
+                                            onChange={(e) => setRerunModel(e.target.value)}
+                                            style={{ marginBottom: 'var(--spacing-sm)' }}
+                                        >
+                                            <option value="">Configured model chain</option>
+                                            {providerSettings.modelChain.map(model => (
+                                                <option key={model} value={model}>{model}</option>
+                                            ))}
+                                        </select>
+                                        {!apiKeyValid && (
+                                            <div style={{ fontSize: '13px', color: 'var(--color-warning)', marginBottom: 'var(--spacing-sm)' }}>
+                                                Add a valid API key in Settings to re-run jobs.
+                                            </div>
+                                        )}
+                                        {rerunError && (
+                                            <div style={{ fontSize: '13px', color: 'var(--color-error)', marginBottom: 'var(--spacing-sm)' }}>
+                                                {rerunError}
+                                            </div>
+                                        )}
+                                        <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                                            <button
+                                                className="btn btn-primary"
+                                                onClick={() => handleRerun(selectedJob)}
+                                                disabled={rerunning || !apiKeyValid}
+                                            >
+                                                {rerunning ? <Loader2 size={16} className="spin" /> : <Repeat size={16} />} Run
+                                            </button>
+                                            <button
+                                                className="btn btn-secondary"
+                                                onClick={() => setRerunOpen(false)}
+                                                disabled={rerunning}
+                                            >
+                                                Close
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+
                                 <div style={{ display: 'flex', gap: 'var(--spacing-sm)', flexWrap: 'wrap' }}>
+                                    {(selectedJob.status === 'completed' || selectedJob.status === 'failed' || selectedJob.status === 'cancelled') && !rerunOpen && (
+                                        <button
+                                            className="btn btn-secondary"
+                                            onClick={() => openRerun(selectedJob)}
+                                            title="Run again on the same inputs as a new job"
+                                        >
+                                            <Repeat size={16} /> Re-run
+                                        </button>
+                                    )}
+                                    {selectedJob.outputRefs.length > 0 && (
+                                        <button
+                                            className="btn btn-secondary"
+                                            onClick={() => setDiffAssets({ beforeId: selectedJob.outputRefs[0] })}
+                                            title="Diff this output against another output of the module"
+                                        >
+                                            <GitCompare size={16} /> Compare Output
+                                        </button>
+                                    )}
                                     {selectedJob.status === 'failed' && (
                                         <button
                                             className="btn btn-primary"
                                             onClick={handleRetry}
-                                            disabled={retrying}
+                                            disabled={retrying || !apiKeyValid}
                                         >
                                             {retrying ? <Loader2 size={16} className="spin" /> : <RefreshCw size={16} />} Retry
                                         </button>
                                     )}
+                                    {(selectedJob.status === 'pending' || selectedJob.status === 'running') && (
+                                        <button
+                                            className="btn btn-secondary"
+                                            onClick={() => handleCancel(selectedJob.id)}
+                                        >
+                                            <X size={16} /> Cancel
+                                        </button>
+                                    )}
                                     <button
                                         className="btn btn-secondary"
                                         onClick={() => handleDelete(selectedJob.id)}
@@ -255,6 +717,41 @@ export default function Jobs() {
                 </div>
             </div>
 
+            {comparedOriginal && comparedRerun && (
+                <div className="card" style={{ marginTop: 'var(--spacing-lg)' }}>
+                    <div className="card-header">
+                        <h3 className="card-title">Re-run Comparison</h3>
+                        <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                            {comparedOriginal.outputRefs.length > 0 && comparedRerun.outputRefs.length > 0 && (
+                                <button
+                                    className="btn btn-ghost"
+                                    onClick={() => setDiffAssets({
+                                        beforeId: comparedOriginal.outputRefs[0],
+                                        afterId: comparedRerun.outputRefs[0],
+                                    })}
+                                >
+                                    <GitCompare size={16} /> Structured Diff
+                                </button>
+                            )}
+                            <button className="btn btn-ghost btn-icon" onClick={() => setComparison(null)} title="Close comparison">
+                                <X size={16} />
+                            </button>
+                        </div>
+                    </div>
+                    <div className="card-body">
+                        <JobOutputComparison original={comparedOriginal} rerun={comparedRerun} />
+                    </div>
+                </div>
+            )}
+
+            {diffAssets && (
+                <JsonDiffDialog
+                    beforeId={diffAssets.beforeId}
+                    afterId={diffAssets.afterId}
+                    onClose={() => setDiffAssets(null)}
+                />
+            )}
+
             <style>{`
                 @keyframes spin {
                     from { transform: rotate(0deg); }
@@ -1,7 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import {
     Upload,
-    Image as ImageIcon,
     Play,
     Trash2,
     Copy,
@@ -12,14 +11,22 @@ import {
     Sparkles,
     Loader2,
     Check,
-    AlertCircle
+    AlertCircle,
+    X,
+    History,
+    Crop
 } from 'lucide-react';
 import { useAppStore } from '../../state';
-import { analyzeIdentity, generatePanelSpec, fileToBase64, isInitialized } from '../../services/ai.service';
-import { createJob, completeJob, failJob } from '../../services/job.service';
+import { analyzeIdentity, generatePanelSpec, isInitialized, isCancelled, getErrorKind } from '../../services/ai.service';
+import { createJob, completeJob, failJob, trackJob, cancelJob, findPreviousOutput } from '../../services/job.service';
 import { getActivePrompt } from '../../services/promptBrain.service';
-import { assetOperations, generateUUID } from '../../db';
-import type { IdentityJSON, Asset, PromptVersion } from '../../types';
+import { assetOperations, jobOperations, generateUUID } from '../../db';
+import StreamingPreview from '../../components/json_editor/StreamingPreview';
+import AssetThumbnail from '../../components/image_viewer/AssetThumbnail';
+import AssetImage from '../../components/image_viewer/AssetImage';
+import { deleteImageAsset, getImageBlob, loadImageBase64, saveImageAsset } from '../../services/image.service';
+import { createFaceCrop, detectFaces, DEFAULT_CROP_PADDING, type FaceDetectionResult } from '../../services/faceDetection.service';
+import type { IdentityJSON, Asset, Job, PromptVersion, OutputValidation, StreamProgress } from '../../types';
 
 type TabId = 'workspace' | 'panels' | 'batch' | 'prompt_usage' | 'exports';
 type WorkspaceSubTab = 'reference' | 'geometry' | 'markers';
@@ -43,9 +50,6 @@ interface UploadedImage {
     filename: string;
     status: 'pending' | 'running' | 'completed' | 'failed';
     confidence?: number;
-    dataUrl?: string;
-    base64?: string;
-    mimeType?: string;
     error?: string;
 }
 
@@ -53,7 +57,7 @@ interface UploadedImage {
 const FALLBACK_PROMPT = `Analyze this portrait image and extract detailed identity information in JSON format. Return a JSON with meta, identity_blueprint (face_geometry, skin_texture, hair).`;
 
 export default function GridToJson() {
-    const { apiKeyValid } = useAppStore();
+    const { apiKeyValid, autoRepairOutput } = useAppStore();
     const [activeTab, setActiveTab] = useState<TabId>('workspace');
     const [workspaceSubTab, setWorkspaceSubTab] = useState<WorkspaceSubTab>('reference');
     const [outputSubTab, setOutputSubTab] = useState<OutputSubTab>('identity');
@@ -62,17 +66,53 @@ export default function GridToJson() {
     const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
     const [dragOver, setDragOver] = useState(false);
     const [analyzing, setAnalyzing] = useState(false);
+    const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+    const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
     const [identityResult, setIdentityResult] = useState<IdentityJSON | null>(null);
     const [panelResults, setPanelResults] = useState<Record<number, object>>({});
     const [copied, setCopied] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [validation, setValidation] = useState<OutputValidation | null>(null);
     const [activePrompt, setActivePrompt] = useState<PromptVersion | null>(null);
+    const [previousRun, setPreviousRun] = useState<{ job: Job; output: Asset } | null>(null);
+    const [faceCheck, setFaceCheck] = useState<FaceDetectionResult | null>(null);
+    const [faceChecking, setFaceChecking] = useState(false);
+    const [selectedFace, setSelectedFace] = useState(0);
+    const [cropPadding, setCropPadding] = useState(DEFAULT_CROP_PADDING);
+    const [cropping, setCropping] = useState(false);
 
     // Load active prompt from Prompt Brain on mount
     useEffect(() => {
         getActivePrompt('grid_to_json').then(setActivePrompt);
     }, []);
 
+    // Look for a stored result of this exact image under the current prompt version
+    useEffect(() => {
+        setPreviousRun(null);
+        if (!selectedImageId) return;
+        let active = true;
+        // createJob records 1.0.0 when no prompt is active
+        findPreviousOutput('grid_to_json', selectedImageId, activePrompt?.version || '1.0.0', 'identity_json')
+            .then(result => { if (active) setPreviousRun(result); })
+            .catch(error => console.warn('Previous analysis lookup failed:', error));
+        return () => { active = false; };
+    }, [selectedImageId, activePrompt]);
+
+    // Input check: the identity prompt expects exactly one clearly visible face
+    useEffect(() => {
+        setFaceCheck(null);
+        setSelectedFace(0);
+        if (!selectedImageId) return;
+        let active = true;
+        setFaceChecking(true);
+        assetOperations.get(selectedImageId)
+            .then(async asset => asset ? detectFaces(await getImageBlob(asset)) : null)
+            .then(result => { if (active) setFaceCheck(result); })
+            .catch(error => console.warn('Face check failed:', error))
+            .finally(() => { if (active) setFaceChecking(false); });
+        return () => { active = false; };
+    }, [selectedImageId]);
+
     const tabs = [
         { id: 'workspace' as TabId, label: 'Workspace' },
         { id: 'panels' as TabId, label: 'Panels' },
@@ -85,35 +125,21 @@ export default function GridToJson() {
         const imageFiles = files.filter(f => f.type.startsWith('image/'));
 
         for (const file of imageFiles) {
-            const id = generateUUID();
-            const { base64, mimeType } = await fileToBase64(file);
+            // Saved first so the queue can render its thumbnail; identical
+            // bytes come back as the asset stored the first time
+            const { id } = await saveImageAsset(file);
 
             const newImage: UploadedImage = {
                 id,
                 filename: file.name,
-                status: 'pending',
-                dataUrl: `data:${mimeType};base64,${base64}`,
-                base64,
-                mimeType
+                status: 'pending'
             };
 
-            setImages(prev => [...prev, newImage]);
+            setImages(prev => prev.some(img => img.id === id) ? prev : [...prev, newImage]);
 
             if (!selectedImageId) {
                 setSelectedImageId(id);
             }
-
-            // Save to IndexedDB
-            const asset: Asset = {
-                id,
-                type: 'source_image',
-                filename: file.name,
-                mimeType,
-                data: `data:${mimeType};base64,${base64}`,
-                sizeBytes: file.size,
-                createdAt: Date.now()
-            };
-            await assetOperations.create(asset);
         }
     };
 
@@ -134,27 +160,35 @@ export default function GridToJson() {
         if (!selectedImageId || !apiKeyValid) return;
 
         const selectedImage = images.find(img => img.id === selectedImageId);
-        if (!selectedImage?.base64 || !selectedImage.mimeType) return;
+        if (!selectedImage) return;
 
         setAnalyzing(true);
         setError(null);
+        setValidation(null);
         setImages(prev => prev.map(img =>
             img.id === selectedImageId ? { ...img, status: 'running' as const } : img
         ));
 
+        // Use active prompt from Prompt Brain, fallback to default
+        const systemPrompt = activePrompt?.content || FALLBACK_PROMPT;
+
         // Create job record
-        const job = await createJob('grid_to_json', [selectedImageId]);
+        const job = await createJob('grid_to_json', [selectedImageId], undefined, { promptText: systemPrompt });
+        const signal = trackJob(job.id);
+        setCurrentJobId(job.id);
 
         try {
-            // Use active prompt from Prompt Brain, fallback to default
-            const systemPrompt = activePrompt?.content || FALLBACK_PROMPT;
-            const result = await analyzeIdentity(
-                selectedImage.base64,
-                selectedImage.mimeType,
-                systemPrompt
+            // The model sees the preprocessed image, not the raw upload
+            const { base64, mimeType } = await loadImageBase64(selectedImageId);
+            const { data: result, validation: outputValidation, extraction, outputMode, usage } = await analyzeIdentity(
+                base64,
+                mimeType,
+                systemPrompt,
+                { autoRepair: autoRepairOutput, signal, onProgress: setStreamProgress }
             );
 
             setIdentityResult(result);
+            setValidation(outputValidation);
             setImages(prev => prev.map(img =>
                 img.id === selectedImageId ? {
                     ...img,
@@ -164,27 +198,93 @@ export default function GridToJson() {
             ));
 
             // Save identity JSON as asset
+            const data = JSON.stringify(result, null, 2);
             const identityAsset: Asset = {
                 id: generateUUID(),
                 type: 'identity_json',
                 filename: `identity_${selectedImage.filename}.json`,
                 mimeType: 'application/json',
-                data: JSON.stringify(result, null, 2),
+                data,
+                size: data.length,
+                metadata: {},
                 jobId: job.id,
                 createdAt: Date.now()
             };
             await assetOperations.create(identityAsset);
-            await completeJob(job.id, [identityAsset.id]);
+            await completeJob(job.id, [identityAsset.id], {
+                validation: outputValidation,
+                extraction,
+                outputMode,
+                usage,
+            });
 
         } catch (err: any) {
+            if (isCancelled(err)) {
+                setImages(prev => prev.map(img =>
+                    img.id === selectedImageId ? { ...img, status: 'pending' as const } : img
+                ));
+                return;
+            }
             const errorMsg = err.message || 'Analysis failed';
             setError(errorMsg);
             setImages(prev => prev.map(img =>
                 img.id === selectedImageId ? { ...img, status: 'failed' as const, error: errorMsg } : img
             ));
-            await failJob(job.id, errorMsg);
+            await failJob(job.id, errorMsg, getErrorKind(err));
         } finally {
             setAnalyzing(false);
+            setCurrentJobId(null);
+            setStreamProgress(null);
+        }
+    };
+
+    const handleReuse = () => {
+        if (!previousRun || !selectedImageId) return;
+        try {
+            const { data } = previousRun.output;
+            if (typeof data !== 'string') throw new Error('Stored result is not JSON text');
+            const result = JSON.parse(data) as IdentityJSON;
+            setIdentityResult(result);
+            setValidation(previousRun.job.validation ?? null);
+            setError(null);
+            setImages(prev => prev.map(img =>
+                img.id === selectedImageId ? {
+                    ...img,
+                    status: 'completed' as const,
+                    confidence: parseInt(result.meta?.extraction_confidence || '90')
+                } : img
+            ));
+        } catch (err: any) {
+            setError(`Could not reuse the stored result: ${err.message}`);
+        }
+    };
+
+    const handleCropFace = async () => {
+        const face = faceCheck?.faces[selectedFace];
+        if (!faceCheck || !face || !selectedImageId) return;
+
+        setCropping(true);
+        setError(null);
+        try {
+            const source = await assetOperations.get(selectedImageId);
+            if (!source) throw new Error('Source image not found');
+            const crop = await createFaceCrop(source, face, cropPadding, faceCheck.method);
+            setImages(prev => prev.some(img => img.id === crop.id) ? prev : [...prev, {
+                id: crop.id,
+                filename: crop.filename,
+                status: 'pending'
+            }]);
+            setSelectedImageId(crop.id);
+        } catch (err: any) {
+            setError(err.message || 'Crop failed');
+        } finally {
+            setCropping(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (currentJobId) {
+            await cancelJob(currentJobId);
         }
     };
 
@@ -193,7 +293,7 @@ export default function GridToJson() {
 
         try {
             const panelPrompt = `Generate a panel specification for Panel ${panelNum} (${PANEL_ANGLES[panelNum]}) based on this identity data. Return JSON with camera angle, lighting, and prompt details.`;
-            const result = await generatePanelSpec(identityResult, panelNum, panelPrompt);
+            const { data: result } = await generatePanelSpec(identityResult, panelNum, panelPrompt, { autoRepair: autoRepairOutput });
             setPanelResults(prev => ({ ...prev, [panelNum]: result }));
         } catch (err: any) {
             setError(err.message || 'Panel generation failed');
@@ -222,7 +322,10 @@ export default function GridToJson() {
             setSelectedImageId(null);
             setIdentityResult(null);
         }
-        await assetOperations.delete(id);
+        // Uploads are deduplicated, so the asset may be an earlier job's input
+        if ((await jobOperations.getByInput(id)).length === 0) {
+            await deleteImageAsset(id);
+        }
     };
 
     const selectedImage = images.find(img => img.id === selectedImageId);
@@ -338,11 +441,7 @@ Lighting: Studio, soft shadows` : '');
                                                         justifyContent: 'center',
                                                         overflow: 'hidden'
                                                     }}>
-                                                        {img.dataUrl ? (
-                                                            <img src={img.dataUrl} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-                                                        ) : (
-                                                            <ImageIcon size={20} style={{ color: 'var(--color-text-muted)' }} />
-                                                        )}
+                                                        <AssetThumbnail assetId={img.id} />
                                                     </div>
                                                     <div style={{ flex: 1, minWidth: 0 }}>
                                                         <div style={{ fontSize: '13px', fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
@@ -368,6 +467,105 @@ Lighting: Studio, soft shadows` : '');
                                     </div>
                                 )}
 
+                                {/* Input Check */}
+                                {selectedImage && (faceChecking || faceCheck) && (
+                                    <div style={{
+                                        marginTop: 'var(--spacing-md)',
+                                        background: faceCheck?.faces.length === 1 ? 'rgba(16, 185, 129, 0.1)' : faceCheck ? 'rgba(245, 158, 11, 0.1)' : 'var(--color-bg-tertiary)',
+                                        border: `1px solid ${faceCheck?.faces.length === 1 ? 'rgba(16, 185, 129, 0.3)' : faceCheck ? 'rgba(245, 158, 11, 0.3)' : 'var(--color-border)'}`,
+                                        borderRadius: 'var(--radius-md)',
+                                        padding: 'var(--spacing-sm)',
+                                        fontSize: '13px'
+                                    }}>
+                                        {faceChecking || !faceCheck ? (
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', color: 'var(--color-text-muted)' }}>
+                                                <Loader2 size={14} className="spin" /> Checking for faces...
+                                            </div>
+                                        ) : (
+                                            <>
+                                                <div style={{
+                                                    display: 'flex',
+                                                    alignItems: 'center',
+                                                    gap: 'var(--spacing-xs)',
+                                                    color: faceCheck.faces.length === 1 ? 'var(--color-success)' : 'var(--color-warning)'
+                                                }}>
+                                                    {faceCheck.faces.length === 1 ? <Check size={14} /> : <AlertCircle size={14} />}
+                                                    {faceCheck.faces.length === 0
+                                                        ? 'No face found. Identity extraction needs one clearly visible face.'
+                                                        : faceCheck.faces.length === 1
+                                                            ? 'One face found.'
+                                                            : `${faceCheck.faces.length} faces found. Crop to the one to analyse.`}
+                                                </div>
+                                                {faceCheck.method === 'skin_heuristic' && (
+                                                    <div style={{ color: 'var(--color-text-muted)', marginTop: 'var(--spacing-xs)' }}>
+                                                        Estimated from skin tones; this browser has no built-in face detector.
+                                                    </div>
+                                                )}
+                                                {faceCheck.faces.length > 0 && (
+                                                    <>
+                                                        {faceCheck.faces.length > 1 && (
+                                                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--spacing-xs)', marginTop: 'var(--spacing-sm)' }}>
+                                                                {faceCheck.faces.map((_, i) => (
+                                                                    <button
+                                                                        key={i}
+                                                                        className={`btn ${selectedFace === i ? 'btn-primary' : 'btn-secondary'}`}
+                                                                        style={{ padding: '2px 8px', fontSize: '12px' }}
+                                                                        onClick={() => setSelectedFace(i)}
+                                                                    >
+                                                                        Face {i + 1}
+                                                                    </button>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-sm)' }}>
+                                                            <span style={{ whiteSpace: 'nowrap', color: 'var(--color-text-secondary)' }}>
+                                                                Padding {Math.round(cropPadding * 100)}%
+                                                            </span>
+                                                            <input
+                                                                type="range"
+                                                                min={0}
+                                                                max={1.5}
+                                                                step={0.05}
+                                                                value={cropPadding}
+                                                                onChange={(e) => setCropPadding(Number(e.target.value))}
+                                                                style={{ flex: 1 }}
+                                                            />
+                                                        </div>
+                                                        <button
+                                                            className="btn btn-secondary"
+                                                            style={{ width: '100%', marginTop: 'var(--spacing-sm)' }}
+                                                            onClick={handleCropFace}
+                                                            disabled={cropping || analyzing}
+                                                        >
+                                                            {cropping ? <Loader2 size={16} className="spin" /> : <Crop size={16} />} Crop to Face{faceCheck.faces.length > 1 ? ` ${selectedFace + 1}` : ''}
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* Previous Analysis */}
+                                {previousRun && selectedImage?.status === 'pending' && !analyzing && (
+                                    <div style={{
+                                        marginTop: 'var(--spacing-md)',
+                                        background: 'rgba(59, 130, 246, 0.1)',
+                                        border: '1px solid rgba(59, 130, 246, 0.3)',
+                                        borderRadius: 'var(--radius-md)',
+                                        padding: 'var(--spacing-sm)',
+                                        fontSize: '13px'
+                                    }}>
+                                        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-xs)', color: 'var(--color-info)', marginBottom: 'var(--spacing-sm)' }}>
+                                            <History size={14} />
+                                            Analysed before with prompt v{previousRun.job.promptVersion} on {new Date(previousRun.job.completedAt ?? previousRun.job.createdAt).toLocaleString()}
+                                        </div>
+                                        <button className="btn btn-secondary" onClick={handleReuse}>
+                                            <FileJson size={16} /> Reuse Stored Result
+                                        </button>
+                                    </div>
+                                )}
+
                                 {/* Error Display */}
                                 {error && (
                                     <div style={{
@@ -383,6 +581,21 @@ Lighting: Studio, soft shadows` : '');
                                     </div>
                                 )}
 
+                                {/* Schema Validation Warning */}
+                                {validation && !validation.valid && (
+                                    <div style={{
+                                        marginTop: 'var(--spacing-md)',
+                                        background: 'rgba(245, 158, 11, 0.1)',
+                                        border: '1px solid rgba(245, 158, 11, 0.3)',
+                                        borderRadius: 'var(--radius-md)',
+                                        padding: 'var(--spacing-sm)',
+                                        fontSize: '13px',
+                                        color: 'var(--color-warning)'
+                                    }}>
+                                        Output has {validation.violations.length} schema violation(s){validation.repairAttempted ? ' after repair' : ''}, e.g. <code>{validation.violations[0].path}</code>: {validation.violations[0].message}
+                                    </div>
+                                )}
+
                                 {/* Actions */}
                                 <div style={{ marginTop: 'var(--spacing-lg)', display: 'flex', gap: 'var(--spacing-sm)' }}>
                                     <button
@@ -397,6 +610,14 @@ Lighting: Studio, soft shadows` : '');
                                             <><Play size={16} /> Analyze Selected</>
                                         )}
                                     </button>
+                                    {analyzing && (
+                                        <button
+                                            className="btn btn-secondary"
+                                            onClick={handleCancel}
+                                        >
+                                            <X size={16} /> Cancel
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -433,8 +654,31 @@ Lighting: Studio, soft shadows` : '');
                                         color: 'var(--color-text-muted)',
                                         overflow: 'hidden'
                                     }}>
-                                        {selectedImage?.dataUrl ? (
-                                            <img src={selectedImage.dataUrl} alt="Selected" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                                        {selectedImage ? (
+                                            <div style={{ position: 'relative', display: 'inline-flex', height: '100%' }}>
+                                                <AssetImage
+                                                    assetId={selectedImage.id}
+                                                    alt="Selected"
+                                                    style={{ height: '100%', width: 'auto', maxWidth: '100%' }}
+                                                />
+                                                {faceCheck?.faces.map((face, i) => (
+                                                    <div
+                                                        key={i}
+                                                        onClick={() => setSelectedFace(i)}
+                                                        title={`Face ${i + 1}`}
+                                                        style={{
+                                                            position: 'absolute',
+                                                            left: `${(face.x / faceCheck.imageWidth) * 100}%`,
+                                                            top: `${(face.y / faceCheck.imageHeight) * 100}%`,
+                                                            width: `${(face.width / faceCheck.imageWidth) * 100}%`,
+                                                            height: `${(face.height / faceCheck.imageHeight) * 100}%`,
+                                                            border: `2px solid ${selectedFace === i ? 'var(--color-accent-primary)' : 'rgba(255, 255, 255, 0.6)'}`,
+                                                            borderRadius: 'var(--radius-sm)',
+                                                            cursor: 'pointer'
+                                                        }}
+                                                    />
+                                                ))}
+                                            </div>
                                         ) : (
                                             'Select an image to analyze'
                                         )}
@@ -562,9 +806,13 @@ Lighting: Studio, soft shadows` : '');
                                                     <Download size={14} /> Download
                                                 </button>
                                             </div>
-                                            <div className="json-editor">
-                                                <pre>{identityResult ? JSON.stringify(identityResult, null, 2) : '// Analyze an image to see results'}</pre>
-                                            </div>
+                                            {streamProgress ? (
+                                                <StreamingPreview progress={streamProgress} />
+                                            ) : (
+                                                <div className="json-editor">
+                                                    <pre>{identityResult ? JSON.stringify(identityResult, null, 2) : '// Analyze an image to see results'}</pre>
+                                                </div>
+                                            )}
                                         </>
                                     )}
 
@@ -15,14 +15,24 @@ import {
     Loader2,
     Check,
     AlertCircle,
-    Trash2
+    Trash2,
+    X
 } from 'lucide-react';
 import { useAppStore } from '../../state';
-import { generateSpecFromText, generateSpecFromImage, fileToBase64 } from '../../services/ai.service';
-import { createJob, completeJob, failJob } from '../../services/job.service';
+import {
+    generateSpecFromText,
+    generateSpecFromImage,
+    isCancelled,
+    getErrorKind,
+    type GenerationResult
+} from '../../services/ai.service';
+import { createJob, completeJob, failJob, trackJob, cancelJob } from '../../services/job.service';
 import { getActivePrompt } from '../../services/promptBrain.service';
 import { assetOperations, generateUUID } from '../../db';
-import type { RealisticJSON, Asset, PromptVersion } from '../../types';
+import StreamingPreview from '../../components/json_editor/StreamingPreview';
+import AssetImage from '../../components/image_viewer/AssetImage';
+import { loadImageBase64, saveImageAsset } from '../../services/image.service';
+import type { RealisticJSON, Asset, PromptVersion, OutputValidation, StreamProgress } from '../../types';
 
 type TabId = 'builder' | 'assumptions' | 'json_spec' | 'variations';
 type InputMode = 'text' | 'image' | 'hybrid';
@@ -31,18 +41,21 @@ type InputMode = 'text' | 'image' | 'hybrid';
 const FALLBACK_PROMPT = `Generate a JSON specification for realistic image generation with meta, subject, wardrobe, environment, lighting, camera, and assumptions.`;
 
 export default function RealisticToJson() {
-    const { apiKeyValid } = useAppStore();
+    const { apiKeyValid, autoRepairOutput } = useAppStore();
     const [activeTab, setActiveTab] = useState<TabId>('builder');
     const [inputMode, setInputMode] = useState<InputMode>('text');
     const [textInput, setTextInput] = useState('');
     const [structuredFields, setStructuredFields] = useState({ subject: '', style: 'Fashion/Editorial', environment: '', camera: '' });
-    const [imageData, setImageData] = useState<{ dataUrl: string; base64: string; mimeType: string; filename: string } | null>(null);
+    const [imageData, setImageData] = useState<{ assetId: string; filename: string } | null>(null);
     const [hybridText, setHybridText] = useState('');
     const [analyzing, setAnalyzing] = useState(false);
+    const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+    const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
     const [result, setResult] = useState<RealisticJSON | null>(null);
     const [assumptions, setAssumptions] = useState<string[]>([]);
     const [copied, setCopied] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [validation, setValidation] = useState<OutputValidation | null>(null);
     const [dragOver, setDragOver] = useState(false);
     const [activePrompt, setActivePrompt] = useState<PromptVersion | null>(null);
 
@@ -59,9 +72,8 @@ export default function RealisticToJson() {
     ];
 
     const handleFileUpload = async (file: File) => {
-        const { base64, mimeType } = await fileToBase64(file);
-        const dataUrl = `data:${mimeType};base64,${base64}`;
-        setImageData({ dataUrl, base64, mimeType, filename: file.name });
+        const asset = await saveImageAsset(file);
+        setImageData({ assetId: asset.id, filename: file.name });
         setError(null);
     };
 
@@ -79,6 +91,7 @@ export default function RealisticToJson() {
 
         setAnalyzing(true);
         setError(null);
+        setValidation(null);
 
         let inputDescription = '';
         let inputAssets: string[] = [];
@@ -95,50 +108,81 @@ export default function RealisticToJson() {
         }
 
         if (inputMode === 'image' || inputMode === 'hybrid') {
-            if (imageData) inputAssets.push(imageData.filename);
+            if (imageData) inputAssets.push(imageData.assetId);
         }
 
-        const job = await createJob('realistic_to_json', inputAssets.length > 0 ? inputAssets : [inputDescription.slice(0, 50)]);
+        // Use active prompt from Prompt Brain, fallback to default
+        const systemPrompt = activePrompt?.content || FALLBACK_PROMPT;
+        // Hybrid runs append the requested modifications to the prompt itself
+        const runPrompt = inputMode === 'hybrid' ? `${systemPrompt}\n\nModifications to apply: ${hybridText}` : systemPrompt;
+
+        const job = await createJob(
+            'realistic_to_json',
+            inputAssets.length > 0 ? inputAssets : [inputDescription.slice(0, 50)],
+            undefined,
+            { promptText: runPrompt, inputText: inputMode === 'text' ? inputDescription : undefined }
+        );
+        const signal = trackJob(job.id);
+        setCurrentJobId(job.id);
 
         try {
-            let generatedResult: RealisticJSON;
-            // Use active prompt from Prompt Brain, fallback to default
-            const systemPrompt = activePrompt?.content || FALLBACK_PROMPT;
+            let generation: GenerationResult<RealisticJSON>;
+            const options = { autoRepair: autoRepairOutput, signal, onProgress: setStreamProgress };
 
             if (inputMode === 'text') {
-                generatedResult = await generateSpecFromText(inputDescription, systemPrompt);
+                generation = await generateSpecFromText(inputDescription, systemPrompt, options);
             } else if (inputMode === 'image' && imageData) {
-                generatedResult = await generateSpecFromImage(imageData.base64, imageData.mimeType, systemPrompt);
+                const { base64, mimeType } = await loadImageBase64(imageData.assetId);
+                generation = await generateSpecFromImage(base64, mimeType, systemPrompt, options);
             } else if (inputMode === 'hybrid' && imageData) {
-                const hybridPrompt = `${systemPrompt}\n\nModifications to apply: ${hybridText}`;
-                generatedResult = await generateSpecFromImage(imageData.base64, imageData.mimeType, hybridPrompt);
+                const { base64, mimeType } = await loadImageBase64(imageData.assetId);
+                generation = await generateSpecFromImage(base64, mimeType, runPrompt, options);
             } else {
                 throw new Error('Invalid input');
             }
 
+            const generatedResult = generation.data;
             setResult(generatedResult);
+            setValidation(generation.validation);
             setAssumptions((generatedResult as any).assumptions || []);
 
             // Save result as asset
+            const data = JSON.stringify(generatedResult, null, 2);
             const resultAsset: Asset = {
                 id: generateUUID(),
-                type: 'identity_json',
+                type: 'realistic_json',
                 filename: `realistic_spec_${Date.now()}.json`,
                 mimeType: 'application/json',
-                data: JSON.stringify(generatedResult, null, 2),
+                data,
+                size: data.length,
+                metadata: {},
                 jobId: job.id,
                 createdAt: Date.now()
             };
             await assetOperations.create(resultAsset);
-            await completeJob(job.id, [resultAsset.id]);
+            await completeJob(job.id, [resultAsset.id], {
+                validation: generation.validation,
+                extraction: generation.extraction,
+                outputMode: generation.outputMode,
+                usage: generation.usage,
+            });
 
             setActiveTab('json_spec');
         } catch (err: any) {
+            if (isCancelled(err)) return;
             const errorMsg = err.message || 'Generation failed';
             setError(errorMsg);
-            await failJob(job.id, errorMsg);
+            await failJob(job.id, errorMsg, getErrorKind(err));
         } finally {
             setAnalyzing(false);
+            setCurrentJobId(null);
+            setStreamProgress(null);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (currentJobId) {
+            await cancelJob(currentJobId);
         }
     };
 
@@ -304,7 +348,7 @@ Example: A confident businesswoman in her 30s wearing a navy blue tailored suit,
                                                 overflow: 'hidden',
                                                 marginBottom: 'var(--spacing-md)'
                                             }}>
-                                                <img src={imageData.dataUrl} alt="" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                                                <AssetImage assetId={imageData.assetId} />
                                             </div>
                                             <button
                                                 className="btn btn-secondary"
@@ -350,7 +394,7 @@ Example: A confident businesswoman in her 30s wearing a navy blue tailored suit,
                                                     justifyContent: 'center',
                                                     overflow: 'hidden'
                                                 }}>
-                                                    <img src={imageData.dataUrl} alt="" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                                                    <AssetImage assetId={imageData.assetId} />
                                                 </div>
                                                 <button
                                                     className="btn btn-ghost btn-icon"
@@ -404,6 +448,21 @@ Example: Change outfit to red evening gown, add dramatic backlight..."
                                     </div>
                                 )}
 
+                                {/* Schema Validation Warning */}
+                                {validation && !validation.valid && (
+                                    <div style={{
+                                        marginTop: 'var(--spacing-md)',
+                                        background: 'rgba(245, 158, 11, 0.1)',
+                                        border: '1px solid rgba(245, 158, 11, 0.3)',
+                                        borderRadius: 'var(--radius-md)',
+                                        padding: 'var(--spacing-sm)',
+                                        fontSize: '13px',
+                                        color: 'var(--color-warning)'
+                                    }}>
+                                        Output has {validation.violations.length} schema violation(s){validation.repairAttempted ? ' after repair' : ''}, e.g. <code>{validation.violations[0].path}</code>: {validation.violations[0].message}
+                                    </div>
+                                )}
+
                                 <button
                                     className="btn btn-primary"
                                     style={{ width: '100%', marginTop: 'var(--spacing-lg)' }}
@@ -416,6 +475,15 @@ Example: Change outfit to red evening gown, add dramatic backlight..."
                                         <><Play size={16} /> Generate Specification</>
                                     )}
                                 </button>
+                                {analyzing && (
+                                    <button
+                                        className="btn btn-secondary"
+                                        style={{ width: '100%', marginTop: 'var(--spacing-sm)' }}
+                                        onClick={handleCancel}
+                                    >
+                                        <X size={16} /> Cancel
+                                    </button>
+                                )}
                             </div>
                         </div>
 
@@ -533,9 +601,13 @@ Example: Change outfit to red evening gown, add dramatic backlight..."
                             </div>
                         </div>
                         <div className="card-body">
-                            <div className="json-editor" style={{ maxHeight: 500 }}>
-                                <pre>{result ? JSON.stringify(result, null, 2) : '// Generate a specification to see results'}</pre>
-                            </div>
+                            {streamProgress ? (
+                                <StreamingPreview progress={streamProgress} maxHeight={500} />
+                            ) : (
+                                <div className="json-editor" style={{ maxHeight: 500 }}>
+                                    <pre>{result ? JSON.stringify(result, null, 2) : '// Generate a specification to see results'}</pre>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
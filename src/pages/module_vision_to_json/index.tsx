@@ -13,14 +13,18 @@ import {
     Move,
     Loader2,
     Check,
-    AlertCircle
+    AlertCircle,
+    X
 } from 'lucide-react';
 import { useAppStore } from '../../state';
-import { visualSweep, fileToBase64 } from '../../services/ai.service';
-import { createJob, completeJob, failJob } from '../../services/job.service';
+import { visualSweep, isCancelled, getErrorKind } from '../../services/ai.service';
+import { createJob, completeJob, failJob, trackJob, cancelJob } from '../../services/job.service';
 import { getActivePrompt } from '../../services/promptBrain.service';
 import { assetOperations, generateUUID } from '../../db';
-import type { VisionJSON, Asset, PromptVersion } from '../../types';
+import StreamingPreview from '../../components/json_editor/StreamingPreview';
+import AssetImage from '../../components/image_viewer/AssetImage';
+import { loadImageBase64, saveImageAsset } from '../../services/image.service';
+import type { VisionJSON, Asset, PromptVersion, OutputValidation, StreamProgress } from '../../types';
 
 type TabId = 'input' | 'objects' | 'relationships' | 'text_ocr' | 'json_output';
 
@@ -28,14 +32,17 @@ type TabId = 'input' | 'objects' | 'relationships' | 'text_ocr' | 'json_output';
 const FALLBACK_PROMPT = `Analyze this image and return a JSON with meta, global_context, objects, semantic_relationships, and detected_text.`;
 
 export default function VisionToJson() {
-    const { apiKeyValid } = useAppStore();
+    const { apiKeyValid, autoRepairOutput } = useAppStore();
     const [activeTab, setActiveTab] = useState<TabId>('input');
     const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
-    const [imageData, setImageData] = useState<{ dataUrl: string; base64: string; mimeType: string; filename: string } | null>(null);
+    const [imageData, setImageData] = useState<{ assetId: string; filename: string } | null>(null);
     const [analyzing, setAnalyzing] = useState(false);
+    const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+    const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
     const [result, setResult] = useState<VisionJSON | null>(null);
     const [copied, setCopied] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [validation, setValidation] = useState<OutputValidation | null>(null);
     const [dragOver, setDragOver] = useState(false);
     const [activePrompt, setActivePrompt] = useState<PromptVersion | null>(null);
 
@@ -53,23 +60,10 @@ export default function VisionToJson() {
     ];
 
     const handleFileUpload = async (file: File) => {
-        const { base64, mimeType } = await fileToBase64(file);
-        const dataUrl = `data:${mimeType};base64,${base64}`;
-        setImageData({ dataUrl, base64, mimeType, filename: file.name });
+        const asset = await saveImageAsset(file);
+        setImageData({ assetId: asset.id, filename: file.name });
         setResult(null);
         setError(null);
-
-        // Save to IndexedDB
-        const asset: Asset = {
-            id: generateUUID(),
-            type: 'source_image',
-            filename: file.name,
-            mimeType,
-            data: dataUrl,
-            sizeBytes: file.size,
-            createdAt: Date.now()
-        };
-        await assetOperations.create(asset);
     };
 
     const handleDrop = useCallback((e: React.DragEvent) => {
@@ -91,35 +85,63 @@ export default function VisionToJson() {
 
         setAnalyzing(true);
         setError(null);
+        setValidation(null);
+
+        // Use active prompt from Prompt Brain, fallback to default
+        const systemPrompt = activePrompt?.content || FALLBACK_PROMPT;
 
-        const job = await createJob('vision_to_json', [imageData.filename]);
+        const job = await createJob('vision_to_json', [imageData.assetId], undefined, { promptText: systemPrompt });
+        const signal = trackJob(job.id);
+        setCurrentJobId(job.id);
 
         try {
-            // Use active prompt from Prompt Brain, fallback to default
-            const systemPrompt = activePrompt?.content || FALLBACK_PROMPT;
-            const visionResult = await visualSweep(imageData.base64, imageData.mimeType, systemPrompt);
+            const { base64, mimeType } = await loadImageBase64(imageData.assetId);
+            const { data: visionResult, validation: outputValidation, extraction, outputMode, usage } = await visualSweep(
+                base64,
+                mimeType,
+                systemPrompt,
+                { autoRepair: autoRepairOutput, signal, onProgress: setStreamProgress }
+            );
             setResult(visionResult);
+            setValidation(outputValidation);
 
             // Save result as asset
+            const data = JSON.stringify(visionResult, null, 2);
             const resultAsset: Asset = {
                 id: generateUUID(),
-                type: 'identity_json', // Using identity_json for vision results
+                type: 'vision_json',
                 filename: `vision_${imageData.filename}.json`,
                 mimeType: 'application/json',
-                data: JSON.stringify(visionResult, null, 2),
+                data,
+                size: data.length,
+                metadata: {},
                 jobId: job.id,
                 createdAt: Date.now()
             };
             await assetOperations.create(resultAsset);
-            await completeJob(job.id, [resultAsset.id]);
+            await completeJob(job.id, [resultAsset.id], {
+                validation: outputValidation,
+                extraction,
+                outputMode,
+                usage,
+            });
 
             setActiveTab('json_output');
         } catch (err: any) {
+            if (isCancelled(err)) return;
             const errorMsg = err.message || 'Analysis failed';
             setError(errorMsg);
-            await failJob(job.id, errorMsg);
+            await failJob(job.id, errorMsg, getErrorKind(err));
         } finally {
             setAnalyzing(false);
+            setCurrentJobId(null);
+            setStreamProgress(null);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (currentJobId) {
+            await cancelJob(currentJobId);
         }
     };
 
@@ -221,11 +243,7 @@ export default function VisionToJson() {
                                         justifyContent: 'center',
                                         overflow: 'hidden'
                                     }}>
-                                        <img
-                                            src={imageData.dataUrl}
-                                            alt="Uploaded"
-                                            style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
-                                        />
+                                        <AssetImage assetId={imageData.assetId} alt="Uploaded" />
                                     </div>
                                 )}
                             </div>
@@ -250,6 +268,16 @@ export default function VisionToJson() {
                                     )}
                                 </button>
 
+                                {analyzing && (
+                                    <button
+                                        className="btn btn-secondary"
+                                        style={{ width: '100%', marginBottom: 'var(--spacing-md)' }}
+                                        onClick={handleCancel}
+                                    >
+                                        <X size={16} /> Cancel
+                                    </button>
+                                )}
+
                                 {error && (
                                     <div style={{
                                         background: 'rgba(239, 68, 68, 0.1)',
@@ -264,6 +292,21 @@ export default function VisionToJson() {
                                     </div>
                                 )}
 
+                                {/* Schema Validation Warning */}
+                                {validation && !validation.valid && (
+                                    <div style={{
+                                        marginTop: 'var(--spacing-md)',
+                                        background: 'rgba(245, 158, 11, 0.1)',
+                                        border: '1px solid rgba(245, 158, 11, 0.3)',
+                                        borderRadius: 'var(--radius-md)',
+                                        padding: 'var(--spacing-sm)',
+                                        fontSize: '13px',
+                                        color: 'var(--color-warning)'
+                                    }}>
+                                        Output has {validation.violations.length} schema violation(s){validation.repairAttempted ? ' after repair' : ''}, e.g. <code>{validation.violations[0].path}</code>: {validation.violations[0].message}
+                                    </div>
+                                )}
+
                                 <div style={{
                                     padding: 'var(--spacing-md)',
                                     background: 'var(--color-bg-tertiary)',
@@ -348,7 +391,7 @@ export default function VisionToJson() {
                                     overflow: 'hidden'
                                 }}>
                                     {imageData ? (
-                                        <img src={imageData.dataUrl} alt="" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                                        <AssetImage assetId={imageData.assetId} />
                                     ) : (
                                         <span style={{ color: 'var(--color-text-muted)' }}>No image loaded</span>
                                     )}
@@ -511,9 +554,13 @@ export default function VisionToJson() {
                                     <span className="badge badge-info">{relationships.length} Relationships</span>
                                 </div>
                             )}
-                            <div className="json-editor" style={{ maxHeight: 500 }}>
-                                <pre>{result ? JSON.stringify(result, null, 2) : '// Analyze an image to see results'}</pre>
-                            </div>
+                            {streamProgress ? (
+                                <StreamingPreview progress={streamProgress} maxHeight={500} />
+                            ) : (
+                                <div className="json-editor" style={{ maxHeight: 500 }}>
+                                    <pre>{result ? JSON.stringify(result, null, 2) : '// Analyze an image to see results'}</pre>
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -8,27 +8,141 @@ import {
     Loader2,
     AlertCircle,
     Trash2,
-    Save
+    Save,
+    Plus,
+    Lock,
+    LockOpen,
+    ShieldCheck,
+    Download,
+    Upload,
+    Archive,
+    HardDrive
 } from 'lucide-react';
-import { useAppStore } from '../../state';
-import { initializeGemini, isInitialized } from '../../services/ai.service';
+import { useAppStore, createApiKeyEntry } from '../../state';
+import { initializeProvider } from '../../services/ai.service';
+import { recoverInterruptedBatches } from '../../services/batch.service';
+import { exportBackup, importBackup, type ImportMode } from '../../services/backup.service';
+import { sweepStorage } from '../../services/storage.service';
+import { disableVault, enableVault, lockKeys, saveKeySecrets, unlockKeys } from '../../services/vault.service';
+import StorageUsage from '../../components/common/StorageUsage';
+import { DEFAULT_MODEL_CHAINS, PROVIDER_LABELS } from '../../services/providers';
+import type { ApiKeyEntry, ApiKeyStatus, ProviderType, RetentionPolicy } from '../../types';
+
+const labelStyle = {
+    display: 'block',
+    fontSize: '14px',
+    fontWeight: 500,
+    marginBottom: 'var(--spacing-sm)',
+    color: 'var(--color-text-secondary)'
+};
+
+// Minimum passphrase length for the key vault
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS = [
+    { value: 5, label: 'After 5 minutes idle' },
+    { value: 15, label: 'After 15 minutes idle' },
+    { value: 60, label: 'After 1 hour idle' },
+    { value: 0, label: 'Never' },
+];
+
+const maskKey = (key: string) => key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '••••';
+
+const getKeyStatusBadge = (status: ApiKeyStatus) => {
+    switch (status) {
+        case 'valid': return <span className="badge badge-success">Valid</span>;
+        case 'invalid': return <span className="badge badge-error">Invalid</span>;
+        case 'exhausted': return <span className="badge badge-warning">Quota exhausted</span>;
+        default: return <span className="badge">Not checked</span>;
+    }
+};
 
 export default function Settings() {
-    const { apiKey, apiKeyValid, setApiKey, clearApiKey } = useAppStore();
-    const [inputKey, setInputKey] = useState(apiKey || '');
+    const {
+        apiKeys,
+        apiKeyValid,
+        providerSettings,
+        autoRepairOutput,
+        vaultEnabled,
+        vaultLocked,
+        vaultAutoLockMinutes,
+        retentionPolicy,
+        setApiKeys,
+        clearApiKeys,
+        setProviderSettings,
+        setAutoRepairOutput,
+        setVaultState,
+        setVaultAutoLockMinutes,
+        setRetentionPolicy
+    } = useAppStore();
+    // Draft list edited here; status and usage are read from the store so they stay live
+    const [draftKeys, setDraftKeys] = useState<ApiKeyEntry[]>(apiKeys);
+    const [inputName, setInputName] = useState('');
+    const [inputKey, setInputKey] = useState('');
+    const [providerType, setProviderType] = useState<ProviderType>(providerSettings.provider);
+    const [baseUrl, setBaseUrl] = useState(providerSettings.baseUrl);
+    const [modelChainText, setModelChainText] = useState(providerSettings.modelChain.join('\n'));
     const [showKey, setShowKey] = useState(false);
     const [validating, setValidating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [vaultBusy, setVaultBusy] = useState(false);
+    const [vaultError, setVaultError] = useState<string | null>(null);
+    const [importMode, setImportMode] = useState<ImportMode>('merge');
+    const [backupBusy, setBackupBusy] = useState(false);
+    const [backupResult, setBackupResult] = useState<{ ok: boolean; message: string } | null>(null);
+    const [storageRefresh, setStorageRefresh] = useState(0);
+    const [cleanupBusy, setCleanupBusy] = useState(false);
+    const [cleanupResult, setCleanupResult] = useState<{ ok: boolean; message: string } | null>(null);
 
     useEffect(() => {
-        if (apiKey) {
-            setInputKey(apiKey);
-        }
-    }, [apiKey]);
+        // Locking blanks the secrets, unlocking fills them back in
+        setDraftKeys(current => current.length === 0 || vaultLocked
+            ? apiKeys
+            : current.map(entry => ({ ...entry, key: apiKeys.find(k => k.id === entry.id)?.key || entry.key })));
+    }, [apiKeys, vaultLocked]);
+
+    // Local OpenAI-compatible servers often run without authentication
+    const keyRequired = providerType === 'gemini';
+
+    const handleProviderChange = (type: ProviderType) => {
+        setProviderType(type);
+        setModelChainText(DEFAULT_MODEL_CHAINS[type].join('\n'));
+    };
+
+    const handleAddKey = () => {
+        if (!inputKey.trim()) return;
+        setDraftKeys(prev => [...prev, createApiKeyEntry(inputName.trim() || `Key ${prev.length + 1}`, inputKey.trim())]);
+        setInputName('');
+        setInputKey('');
+    };
+
+    const handleRemoveKey = (id: string) => {
+        setDraftKeys(prev => prev.filter(k => k.id !== id));
+    };
 
     const handleValidateAndSave = async () => {
-        if (!inputKey.trim()) {
-            setError('Please enter an API key');
+        if (vaultLocked) {
+            setError('Unlock your API keys before changing them');
+            return;
+        }
+
+        // A key typed but not added yet is still meant to be saved
+        let keys = inputKey.trim()
+            ? [...draftKeys, createApiKeyEntry(inputName.trim() || `Key ${draftKeys.length + 1}`, inputKey.trim())]
+            : draftKeys;
+        if (keys.length === 0) {
+            if (keyRequired) {
+                setError('Please add at least one API key');
+                return;
+            }
+            keys = [createApiKeyEntry('No key', '')];
+        }
+
+        const modelChain = modelChainText.split('\n').map(m => m.trim()).filter(Boolean);
+        if (modelChain.length === 0) {
+            setError('Please enter at least one model');
             return;
         }
 
@@ -36,11 +150,31 @@ export default function Settings() {
         setError(null);
 
         try {
-            const isValid = await initializeGemini(inputKey.trim());
+            const settings = { provider: providerType, baseUrl: baseUrl.trim(), modelChain };
+            const results = await initializeProvider(keys, settings);
 
-            if (isValid) {
-                setApiKey(inputKey.trim(), true);
-                setError(null);
+            const validatedAt = Date.now();
+            const checked = keys.map(entry => {
+                const result = results.find(r => r.id === entry.id);
+                const stored = apiKeys.find(k => k.id === entry.id);
+                return {
+                    ...entry,
+                    usage: stored?.usage ?? entry.usage,
+                    status: (result?.valid ? 'valid' : 'invalid') as ApiKeyStatus,
+                    validatedAt,
+                };
+            });
+            setDraftKeys(checked);
+            setInputName('');
+            setInputKey('');
+
+            const invalid = results.filter(r => !r.valid).length;
+            if (invalid < results.length) {
+                setProviderSettings(settings);
+                setApiKeys(checked, true);
+                await saveKeySecrets(checked);
+                recoverInterruptedBatches().catch(error => console.error('Batch recovery failed:', error));
+                setError(invalid > 0 ? `${invalid} of ${results.length} keys failed validation and will not be used.` : null);
             } else {
                 setError('Invalid API key. Please check and try again.');
             }
@@ -51,10 +185,119 @@ export default function Settings() {
         }
     };
 
-    const handleClear = () => {
+    const handleClear = async () => {
+        setInputName('');
         setInputKey('');
-        clearApiKey();
+        setDraftKeys([]);
+        clearApiKeys();
         setError(null);
+
+        // Clearing while locked is also the way out of a forgotten passphrase
+        if (vaultLocked) {
+            await disableVault([]);
+            setVaultState(false, false);
+        } else {
+            await saveKeySecrets([]);
+        }
+    };
+
+    const runVaultAction = async (action: () => Promise<void>) => {
+        setVaultBusy(true);
+        setVaultError(null);
+        try {
+            await action();
+            setPassphrase('');
+            setConfirmPassphrase('');
+        } catch (err) {
+            setVaultError(err instanceof Error ? err.message : 'Key encryption failed');
+        } finally {
+            setVaultBusy(false);
+        }
+    };
+
+    const handleEnableVault = () => runVaultAction(async () => {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        }
+        if (passphrase !== confirmPassphrase) {
+            throw new Error('Passphrases do not match');
+        }
+        await enableVault(passphrase, apiKeys);
+        setVaultState(true, false);
+    });
+
+    const handleDisableVault = () => runVaultAction(async () => {
+        await disableVault(apiKeys);
+        setVaultState(false, false);
+    });
+
+    const handleUnlockVault = () => runVaultAction(() => unlockKeys(passphrase));
+
+    const handleRetentionChange = (field: keyof RetentionPolicy, value: number) => {
+        setRetentionPolicy({ ...retentionPolicy, [field]: Math.max(0, Number.isFinite(value) ? value : 0) });
+    };
+
+    const handleRunCleanup = async () => {
+        setCleanupBusy(true);
+        setCleanupResult(null);
+        try {
+            const result = await sweepStorage(retentionPolicy);
+            setCleanupResult({
+                ok: true,
+                message: result.jobsDeleted + result.assetsDeleted > 0
+                    ? `Removed ${result.jobsDeleted} job(s) and ${result.assetsDeleted} asset(s), freeing ${(result.bytesFreed / (1024 * 1024)).toFixed(1)} MB.`
+                    : 'Nothing to clean up.'
+            });
+            setStorageRefresh(n => n + 1);
+        } catch (err) {
+            setCleanupResult({ ok: false, message: err instanceof Error ? err.message : 'Cleanup failed' });
+        } finally {
+            setCleanupBusy(false);
+        }
+    };
+
+    const handleExportBackup = async () => {
+        setBackupBusy(true);
+        setBackupResult(null);
+        try {
+            const blob = await exportBackup();
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `workspace-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+            a.click();
+            URL.revokeObjectURL(url);
+            setBackupResult({ ok: true, message: 'Backup downloaded. API keys are not included.' });
+        } catch (err) {
+            setBackupResult({ ok: false, message: err instanceof Error ? err.message : 'Export failed' });
+        } finally {
+            setBackupBusy(false);
+        }
+    };
+
+    const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (importMode === 'replace' && !window.confirm('Replace all jobs, batches, assets and prompts with this backup?')) {
+            return;
+        }
+
+        setBackupBusy(true);
+        setBackupResult(null);
+        try {
+            const summary = await importBackup(file, importMode);
+            setBackupResult({
+                ok: true,
+                message: `Imported ${summary.jobs} jobs, ${summary.batches} batches, ${summary.assets} assets and ${summary.prompts} prompts`
+                    + (summary.remapped > 0 ? ` (${summary.remapped} given new IDs)` : '')
+                    + (summary.deduplicated > 0 ? `; ${summary.deduplicated} already present were linked instead` : ''),
+            });
+        } catch (err) {
+            setBackupResult({ ok: false, message: err instanceof Error ? err.message : 'Import failed' });
+        } finally {
+            setBackupBusy(false);
+        }
     };
 
     return (
@@ -63,7 +306,7 @@ export default function Settings() {
                 <div className="card-header">
                     <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
                         <Key size={20} />
-                        Gemini API Key
+                        AI Provider
                     </h3>
                     {apiKeyValid && (
                         <span className="badge badge-success" style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
@@ -81,28 +324,121 @@ export default function Settings() {
                         marginBottom: 'var(--spacing-lg)',
                         fontSize: '14px'
                     }}>
-                        <strong>BYOK Model:</strong> This app uses your own Gemini API key. Your key is stored locally in your browser and never sent to any server except Google's Gemini API.
+                        <strong>BYOK Model:</strong> This app uses your own API key. Your key is stored locally in your browser and only sent to the provider you configure below. Turn on key encryption below to protect it with a passphrase.
                     </div>
 
-                    {/* API Key Input */}
+                    {/* Provider */}
                     <div style={{ marginBottom: 'var(--spacing-lg)' }}>
-                        <label style={{
-                            display: 'block',
-                            fontSize: '14px',
-                            fontWeight: 500,
-                            marginBottom: 'var(--spacing-sm)',
-                            color: 'var(--color-text-secondary)'
-                        }}>
-                            API Key
+                        <label style={labelStyle}>Provider</label>
+                        <select
+                            className="input"
+                            value={providerType}
+                            onChange={(e) => handleProviderChange(e.target.value as ProviderType)}
+                        >
+                            {(Object.keys(PROVIDER_LABELS) as ProviderType[]).map(type => (
+                                <option key={type} value={type}>{PROVIDER_LABELS[type]}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {providerType === 'mock' && (
+                        <div style={{ marginBottom: 'var(--spacing-lg)', fontSize: '13px', color: 'var(--color-text-muted)' }}>
+                            Returns canned fixtures without network access. Add flags to a model name to
+                            simulate failures: <code>mock-429</code>, <code>mock-503</code>, <code>mock-slow</code>, <code>mock-malformed</code>,
+                            or <code>mock-textonly</code> to disable native JSON mode.
+                        </div>
+                    )}
+
+                    {providerType === 'openai_compatible' && (
+                        <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                            <label style={labelStyle}>Base URL</label>
+                            <input
+                                type="text"
+                                className="input"
+                                value={baseUrl}
+                                onChange={(e) => setBaseUrl(e.target.value)}
+                                placeholder="http://localhost:11434/v1"
+                            />
+                        </div>
+                    )}
+
+                    {/* Model Chain */}
+                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                        <label style={labelStyle}>Model Chain (one per line, first is primary)</label>
+                        <textarea
+                            className="input"
+                            rows={4}
+                            value={modelChainText}
+                            onChange={(e) => setModelChainText(e.target.value)}
+                            style={{ fontFamily: 'var(--font-mono)', fontSize: '13px', resize: 'vertical' }}
+                        />
+                    </div>
+
+                    {/* API Keys */}
+                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                        <label style={labelStyle}>
+                            API Keys{!keyRequired && ' (optional)'}
                         </label>
+                        {draftKeys.length > 0 && (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-sm)' }}>
+                                {draftKeys.map(entry => {
+                                    const stored = apiKeys.find(k => k.id === entry.id) ?? entry;
+                                    return (
+                                        <div
+                                            key={entry.id}
+                                            style={{
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                gap: 'var(--spacing-sm)',
+                                                padding: 'var(--spacing-sm) var(--spacing-md)',
+                                                background: 'var(--color-bg-tertiary)',
+                                                borderRadius: 'var(--radius-md)'
+                                            }}
+                                        >
+                                            <div style={{ flex: 1, minWidth: 0 }}>
+                                                <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                                                    <span style={{ fontWeight: 500 }}>{entry.name}</span>
+                                                    <code style={{ fontSize: '12px', color: 'var(--color-text-muted)' }}>{maskKey(entry.key)}</code>
+                                                    {getKeyStatusBadge(stored.status)}
+                                                </div>
+                                                <div style={{ fontSize: '12px', color: 'var(--color-text-muted)' }}>
+                                                    {stored.usage.calls.toLocaleString()} calls
+                                                    · {stored.usage.totalTokens.toLocaleString()} tokens
+                                                    · {stored.usage.quotaErrors} quota errors
+                                                    {stored.usage.exhaustedUntil && stored.usage.exhaustedUntil > Date.now() && (
+                                                        <> · resting until {new Date(stored.usage.exhaustedUntil).toLocaleTimeString()}</>
+                                                    )}
+                                                </div>
+                                            </div>
+                                            <button
+                                                className="btn btn-ghost btn-icon"
+                                                onClick={() => handleRemoveKey(entry.id)}
+                                                title="Remove key"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
                         <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                            <input
+                                type="text"
+                                className="input"
+                                value={inputName}
+                                onChange={(e) => setInputName(e.target.value)}
+                                placeholder="Name"
+                                style={{ width: 140 }}
+                            />
                             <div style={{ flex: 1, position: 'relative' }}>
                                 <input
                                     type={showKey ? 'text' : 'password'}
                                     className="input"
                                     value={inputKey}
                                     onChange={(e) => setInputKey(e.target.value)}
-                                    placeholder="AIza..."
+                                    onKeyDown={(e) => e.key === 'Enter' && handleAddKey()}
+                                    placeholder={providerType === 'gemini' ? 'AIza...' : 'sk-...'}
                                     style={{ paddingRight: 40 }}
                                 />
                                 <button
@@ -120,6 +456,12 @@ export default function Settings() {
                                     {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
                                 </button>
                             </div>
+                            <button className="btn btn-secondary" onClick={handleAddKey} disabled={!inputKey.trim()}>
+                                <Plus size={16} /> Add
+                            </button>
+                        </div>
+                        <div style={{ fontSize: '13px', color: 'var(--color-text-muted)', marginTop: 'var(--spacing-sm)' }}>
+                            Add several project keys to spread quota. Calls stay on one key and switch to the next when it runs out of quota.
                         </div>
                     </div>
 
@@ -147,7 +489,7 @@ export default function Settings() {
                         <button
                             className="btn btn-primary"
                             onClick={handleValidateAndSave}
-                            disabled={validating || !inputKey.trim()}
+                            disabled={validating || (keyRequired && draftKeys.length === 0 && !inputKey.trim())}
                             style={{ flex: 1 }}
                         >
                             {validating ? (
@@ -160,7 +502,7 @@ export default function Settings() {
                                 </>
                             )}
                         </button>
-                        {apiKey && (
+                        {(apiKeys.length > 0 || draftKeys.length > 0) && (
                             <button className="btn btn-secondary" onClick={handleClear}>
                                 <Trash2 size={16} /> Clear
                             </button>
@@ -180,6 +522,118 @@ export default function Settings() {
                 </div>
             </div>
 
+            {/* Key Encryption */}
+            <div className="card" style={{ maxWidth: 600, marginTop: 'var(--spacing-lg)' }}>
+                <div className="card-header">
+                    <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                        <ShieldCheck size={20} />
+                        Key Encryption
+                    </h3>
+                    {vaultEnabled && (vaultLocked
+                        ? <span className="badge badge-warning">Locked</span>
+                        : <span className="badge badge-success">Unlocked</span>)}
+                </div>
+                <div className="card-body">
+                    <div style={{ fontSize: '13px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-lg)' }}>
+                        Encrypt stored API keys with a passphrase (PBKDF2 + AES-GCM). The passphrase is never
+                        stored; you enter it once per session, and the keys lock again after the idle timeout.
+                    </div>
+
+                    {!vaultEnabled && (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                            <input
+                                type="password"
+                                className="input"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                placeholder="New passphrase"
+                            />
+                            <input
+                                type="password"
+                                className="input"
+                                value={confirmPassphrase}
+                                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleEnableVault()}
+                                placeholder="Confirm passphrase"
+                            />
+                            <button
+                                className="btn btn-primary"
+                                onClick={handleEnableVault}
+                                disabled={vaultBusy || !passphrase}
+                            >
+                                {vaultBusy ? <Loader2 size={16} className="spin" /> : <Lock size={16} />} Encrypt Keys
+                            </button>
+                        </div>
+                    )}
+
+                    {vaultEnabled && vaultLocked && (
+                        <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                            <input
+                                type="password"
+                                className="input"
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleUnlockVault()}
+                                placeholder="Passphrase"
+                                style={{ flex: 1 }}
+                            />
+                            <button
+                                className="btn btn-primary"
+                                onClick={handleUnlockVault}
+                                disabled={vaultBusy || !passphrase}
+                            >
+                                {vaultBusy ? <Loader2 size={16} className="spin" /> : <LockOpen size={16} />} Unlock
+                            </button>
+                        </div>
+                    )}
+
+                    {vaultEnabled && !vaultLocked && (
+                        <>
+                            <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                                <label style={labelStyle}>Auto-lock</label>
+                                <select
+                                    className="input"
+                                    value={vaultAutoLockMinutes}
+                                    onChange={(e) => setVaultAutoLockMinutes(Number(e.target.value))}
+                                >
+                                    {AUTO_LOCK_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                                <button className="btn btn-secondary" onClick={lockKeys} disabled={vaultBusy}>
+                                    <Lock size={16} /> Lock Now
+                                </button>
+                                <button className="btn btn-secondary" onClick={handleDisableVault} disabled={vaultBusy}>
+                                    <LockOpen size={16} /> Remove Encryption
+                                </button>
+                            </div>
+                        </>
+                    )}
+
+                    {vaultEnabled && vaultLocked && (
+                        <div style={{ fontSize: '13px', color: 'var(--color-text-muted)', marginTop: 'var(--spacing-sm)' }}>
+                            Forgot the passphrase? Clear the keys above and add them again.
+                        </div>
+                    )}
+
+                    {vaultError && (
+                        <div style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 'var(--spacing-sm)',
+                            marginTop: 'var(--spacing-md)',
+                            color: 'var(--color-error)',
+                            fontSize: '14px'
+                        }}>
+                            <AlertCircle size={16} />
+                            {vaultError}
+                        </div>
+                    )}
+                </div>
+            </div>
+
             {/* Theme Settings */}
             <div className="card" style={{ maxWidth: 600, marginTop: 'var(--spacing-lg)' }}>
                 <div className="card-header">
@@ -195,27 +649,155 @@ export default function Settings() {
                         </div>
                         <span className="badge badge-info">Active</span>
                     </div>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 'var(--spacing-lg)' }}>
+                        <div>
+                            <div style={{ fontWeight: 500 }}>Auto-repair Invalid Output</div>
+                            <div style={{ fontSize: '13px', color: 'var(--color-text-muted)' }}>
+                                Re-prompt the model once when its JSON fails the module schema
+                            </div>
+                        </div>
+                        <input
+                            type="checkbox"
+                            checked={autoRepairOutput}
+                            onChange={(e) => setAutoRepairOutput(e.target.checked)}
+                        />
+                    </div>
                 </div>
             </div>
 
-            {/* Storage Info */}
+            {/* Storage */}
             <div className="card" style={{ maxWidth: 600, marginTop: 'var(--spacing-lg)' }}>
                 <div className="card-header">
-                    <h3 className="card-title">Storage</h3>
+                    <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                        <HardDrive size={20} />
+                        Storage
+                    </h3>
                 </div>
                 <div className="card-body">
-                    <div style={{ fontSize: '14px', color: 'var(--color-text-secondary)' }}>
-                        <div style={{ marginBottom: 'var(--spacing-sm)' }}>
-                            All data is stored locally in your browser using IndexedDB.
+                    <div style={{ fontSize: '13px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-lg)' }}>
+                        All data is stored locally in your browser using IndexedDB. Clearing browser data
+                        removes it; nothing is sent anywhere except calls to your AI provider.
+                    </div>
+
+                    <StorageUsage refreshKey={storageRefresh} />
+
+                    <div style={{ fontWeight: 500, marginTop: 'var(--spacing-xl)', marginBottom: 'var(--spacing-xs)' }}>Retention</div>
+                    <div style={{ fontSize: '13px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-md)' }}>
+                        Applied by a background cleanup every so often. Set a rule to 0 to turn it off.
+                        Running and pending jobs are never touched, and the asset cap only removes
+                        assets that no kept job uses and that were not stored recently.
+                    </div>
+                    <div className="grid grid-3" style={{ marginBottom: 'var(--spacing-lg)' }}>
+                        <div>
+                            <label style={labelStyle}>Jobs kept per module</label>
+                            <input
+                                type="number"
+                                className="input"
+                                min={0}
+                                value={retentionPolicy.maxJobsPerModule}
+                                onChange={(e) => handleRetentionChange('maxJobsPerModule', Math.floor(Number(e.target.value)))}
+                            />
                         </div>
-                        <div style={{ color: 'var(--color-text-muted)', fontSize: '13px' }}>
-                            • Jobs, batches, and assets are persisted across sessions
-                            <br />
-                            • Clearing browser data will remove all stored data
-                            <br />
-                            • No data is sent to external servers (except Gemini API calls)
+                        <div>
+                            <label style={labelStyle}>Failed inputs (days)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                min={0}
+                                value={retentionPolicy.failedInputDays}
+                                onChange={(e) => handleRetentionChange('failedInputDays', Number(e.target.value))}
+                            />
+                        </div>
+                        <div>
+                            <label style={labelStyle}>Asset cap (MB)</label>
+                            <input
+                                type="number"
+                                className="input"
+                                min={0}
+                                value={Math.round(retentionPolicy.maxAssetBytes / (1024 * 1024))}
+                                onChange={(e) => handleRetentionChange('maxAssetBytes', Number(e.target.value) * 1024 * 1024)}
+                            />
                         </div>
                     </div>
+
+                    <button className="btn btn-secondary" onClick={handleRunCleanup} disabled={cleanupBusy}>
+                        {cleanupBusy ? <Loader2 size={16} className="spin" /> : <Trash2 size={16} />} Run Cleanup Now
+                    </button>
+
+                    {cleanupResult && (
+                        <div style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 'var(--spacing-sm)',
+                            marginTop: 'var(--spacing-md)',
+                            color: cleanupResult.ok ? 'var(--color-success)' : 'var(--color-error)',
+                            fontSize: '14px'
+                        }}>
+                            {cleanupResult.ok ? <Check size={16} /> : <AlertCircle size={16} />}
+                            {cleanupResult.message}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Backup & Restore */}
+            <div className="card" style={{ maxWidth: 600, marginTop: 'var(--spacing-lg)' }}>
+                <div className="card-header">
+                    <h3 className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-sm)' }}>
+                        <Archive size={20} />
+                        Backup & Restore
+                    </h3>
+                </div>
+                <div className="card-body">
+                    <div style={{ fontSize: '13px', color: 'var(--color-text-muted)', marginBottom: 'var(--spacing-lg)' }}>
+                        Save jobs, batches, prompts, settings and every asset to a single ZIP to move a
+                        workspace between machines. API keys are left out.
+                    </div>
+
+                    <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+                        <label style={labelStyle}>When importing</label>
+                        <select
+                            className="input"
+                            value={importMode}
+                            onChange={(e) => setImportMode(e.target.value as ImportMode)}
+                        >
+                            <option value="merge">Merge into current data (conflicting IDs are renamed)</option>
+                            <option value="replace">Replace current data and settings</option>
+                        </select>
+                    </div>
+
+                    <div style={{ display: 'flex', gap: 'var(--spacing-sm)' }}>
+                        <button className="btn btn-secondary" onClick={handleExportBackup} disabled={backupBusy}>
+                            {backupBusy ? <Loader2 size={16} className="spin" /> : <Download size={16} />} Export Backup
+                        </button>
+                        <label
+                            className="btn btn-secondary"
+                            style={{ cursor: backupBusy ? 'not-allowed' : 'pointer', opacity: backupBusy ? 0.5 : 1 }}
+                        >
+                            <input
+                                type="file"
+                                accept=".zip,application/zip"
+                                onChange={handleImportBackup}
+                                disabled={backupBusy}
+                                style={{ display: 'none' }}
+                            />
+                            <Upload size={16} /> Import Backup
+                        </label>
+                    </div>
+
+                    {backupResult && (
+                        <div style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: 'var(--spacing-sm)',
+                            marginTop: 'var(--spacing-md)',
+                            color: backupResult.ok ? 'var(--color-success)' : 'var(--color-error)',
+                            fontSize: '14px'
+                        }}>
+                            {backupResult.ok ? <Check size={16} /> : <AlertCircle size={16} />}
+                            {backupResult.message}
+                        </div>
+                    )}
                 </div>
             </div>
 
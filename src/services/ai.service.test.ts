@@ -0,0 +1,174 @@
+/**
+ * AI Service Tests
+ * Drives the retry, backoff, fallback and key rotation paths against the
+ * mock provider, whose model names and script pick the failure to simulate.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateSpecFromText, getModelHealth, initializeProvider, isCancelled } from './ai.service';
+import { MockProvider, setMockScript } from './providers';
+import { QuotaError, TransientError } from './providers/errors';
+import { DailyLimitError, RATE_LIMITS } from './rateLimiter.service';
+
+const KEYS = [
+    { id: 'key-a', name: 'Key A', key: 'a' },
+    { id: 'key-b', name: 'Key B', key: 'b' },
+];
+
+/**
+ * Start a mock provider session on `modelChain` with the given keys
+ */
+async function connect(modelChain: string[], keys = KEYS.slice(0, 1)): Promise<void> {
+    const validation = initializeProvider(keys, { provider: 'mock', baseUrl: '', modelChain });
+    await vi.runAllTimersAsync();
+    expect((await validation).every(result => result.valid)).toBe(true);
+}
+
+/**
+ * Run a call to completion with every backoff and latency timer fast-forwarded
+ */
+async function run<T>(call: Promise<T>): Promise<T> {
+    const settled = call.then(
+        value => ({ ok: true as const, value }),
+        error => ({ ok: false as const, error })
+    );
+    await vi.runAllTimersAsync();
+    const result = await settled;
+    if (!result.ok) throw result.error;
+    return result.value;
+}
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    setMockScript([]);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('executeWithRetry with the mock provider', () => {
+    it('answers on the first model when it is healthy', async () => {
+        await connect(['mock-ok']);
+
+        const result = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(result.usage.model).toBe('mock-ok');
+        expect(result.usage.attempts).toBe(1);
+        expect(result.usage.estimated).toBe(true);
+        expect(result.outputMode).toBe('structured');
+    });
+
+    it('backs off and retries the same model after a transient error', async () => {
+        await connect(['mock-ok']);
+        setMockScript(['503']);
+
+        const result = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(result.usage.model).toBe('mock-ok');
+        expect(result.usage.attempts).toBe(2);
+    });
+
+    it('falls back to the next model when one keeps failing with 503', async () => {
+        await connect(['mock-503', 'mock-ok']);
+
+        const result = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(result.usage.model).toBe('mock-ok');
+        expect(result.usage.attempts).toBeGreaterThan(1);
+        const failing = getModelHealth().find(entry => entry.model === 'mock-503');
+        expect(failing?.state).toBe('open');
+    });
+
+    it('throws a transient error once every model is exhausted', async () => {
+        await connect(['mock-503']);
+
+        await expect(run(generateSpecFromText('a red bicycle', 'realistic'))).rejects.toBeInstanceOf(TransientError);
+    });
+
+    it('rotates to another key on a 429 without failing over the model', async () => {
+        await connect(['mock-ok'], KEYS);
+        setMockScript(['429']);
+
+        const result = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(result.usage.model).toBe('mock-ok');
+        expect(result.usage.apiKeyId).toBe('key-b');
+        expect(result.usage.attempts).toBe(2);
+    });
+
+    it('surfaces a quota error when every key is rate limited', async () => {
+        await connect(['mock-429']);
+
+        await expect(run(generateSpecFromText('a red bicycle', 'realistic'))).rejects.toBeInstanceOf(QuotaError);
+        const limited = getModelHealth().find(entry => entry.model === 'mock-429');
+        expect(limited?.state).toBe('closed');
+        expect(limited?.consecutiveFailures).toBe(0);
+    });
+
+    it('rotates keys when one runs out of its local daily budget', async () => {
+        // Key validation spends the first request of each key
+        RATE_LIMITS['mock-daily'] = { rpm: 0, tpm: 0, rpd: 2 };
+        await connect(['mock-daily'], KEYS);
+
+        const first = await run(generateSpecFromText('a red bicycle', 'realistic'));
+        const second = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(first.usage.apiKeyId).toBe('key-a');
+        expect(second.usage.apiKeyId).toBe('key-b');
+        await expect(run(generateSpecFromText('a red bicycle', 'realistic'))).rejects.toBeInstanceOf(DailyLimitError);
+        expect(getModelHealth()[0].consecutiveFailures).toBe(0);
+    });
+
+    it('falls back to text mode on models without JSON mode', async () => {
+        await connect(['mock-textonly']);
+
+        const result = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(result.outputMode).toBe('text');
+        expect(result.extraction.repairs).toEqual([]);
+    });
+
+    it('closes a malformed, truncated reply', async () => {
+        await connect(['mock-malformed']);
+
+        const result = await run(generateSpecFromText('a red bicycle', 'realistic'));
+
+        expect(result.extraction.truncated).toBe(true);
+        expect(result.extraction.repairs).toContain('closed_truncated_output');
+    });
+
+    it('cancels a slow request when the signal aborts', async () => {
+        await connect(['mock-slow']);
+        const controller = new AbortController();
+
+        const call = generateSpecFromText('a red bicycle', 'realistic', { signal: controller.signal });
+        const settled = call.catch(error => error);
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+
+        expect(isCancelled(await settled)).toBe(true);
+    });
+});
+
+describe('MockProvider', () => {
+    it('rejects straight away when the signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(new MockProvider().generateWithText('mock-ok', 'realistic', 'a red bicycle', { signal: controller.signal }))
+            .rejects.toThrow('The user aborted a request.');
+    });
+
+    it('stops listening on the signal once a response is ready', async () => {
+        const controller = new AbortController();
+        const removed = vi.spyOn(controller.signal, 'removeEventListener');
+
+        await run(new MockProvider().generateWithText('mock-ok', 'realistic', 'a red bicycle', { signal: controller.signal }));
+
+        expect(removed).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+});
@@ -1,19 +1,52 @@
 /**
- * AI Service - Gemini API Integration
+ * AI Service - Model Provider Integration
  * BYOK (Bring Your Own Key) Model
  * With retry logic, exponential backoff, and model fallback
  */
 
-import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
-import type { IdentityJSON, VisionJSON, RealisticJSON } from '../types';
-
-// Model configuration with fallback chain
-const MODEL_CHAIN = [
-    'gemini-2.5-pro',           // Primary: Best quality
-    'gemini-2.5-flash',         // Fallback 1: Fast but good
-    'gemini-2.0-flash-exp',     // Fallback 2: Experimental
-    'gemini-1.5-pro',           // Fallback 3: Stable
-];
+import type { IdentityJSON, PanelJSON, VisionJSON, RealisticJSON, ProviderSettings, OutputValidation, ExtractionReport, OutputMode, JobUsage, TokenUsage, StreamProgress, AIErrorKind, ApiKeyEntry, UUID } from '../types';
+import {
+    AIError,
+    AuthError,
+    classifyError,
+    createProvider,
+    DEFAULT_PROVIDER_SETTINGS,
+    estimateTokens,
+    InvalidInputError,
+    ParseError,
+    QuotaError,
+    TransientError,
+    type AIErrorConstructor,
+    type ProviderRequestOptions,
+    type ProviderResponse,
+    type VisionLLMProvider,
+} from './providers';
+import { buildRepairPrompt, getSchemaId, validateOutput, OUTPUT_SCHEMAS, type OutputSchemaKind } from './schema.service';
+import { extractJson, parsePartialJson, type JsonExtraction } from '../utils/jsonExtractor';
+import { calculateCost } from './billing.service';
+import {
+    beginAttempt,
+    canRoute,
+    getCircuitState,
+    getHealthSnapshot,
+    getNextRetryDelay,
+    getRoutableModels,
+    recordFailure,
+    recordSuccess,
+    releaseAttempt,
+    resetModelHealth,
+    tripCircuit,
+    type ModelHealthSnapshot,
+} from './modelHealth.service';
+import { acquire, applyRateLimitError, DailyLimitError, estimateRequestTokens, reconcile } from './rateLimiter.service';
+import {
+    getActiveKey,
+    getKeyPoolSize,
+    markKeyExhausted,
+    recordKeyUsage,
+    setKeyPool,
+    type PooledKey,
+} from './keyPool.service';
 
 // Retry configuration
 const RETRY_CONFIG = {
@@ -23,215 +56,415 @@ const RETRY_CONFIG = {
     backoffMultiplier: 2,
 };
 
-// Rate limiting configuration
-const RATE_LIMIT = {
-    minDelayBetweenCallsMs: 500,  // Minimum 500ms between calls
-    lastCallTime: 0,
-};
+// Model fallback chain, configured from user settings
+let modelChain: string[] = DEFAULT_PROVIDER_SETTINGS.modelChain;
+// Model and schema pairs rejected at runtime get plain text requests from then on
+const structuredOutputRejected = new Set<string>();
+
+function structuredOutputKey(model: string, schemaKind: OutputSchemaKind): string {
+    return `${model}:${schemaKind}`;
+}
 
-let geminiInstance: GoogleGenerativeAI | null = null;
-let primaryModel: GenerativeModel | null = null;
-let fallbackModels: GenerativeModel[] = [];
-let currentModelIndex = 0;
+interface ModelReply {
+    text: string;
+    outputMode: OutputMode;
+    usage: TokenUsage;
+    model: string;
+    key: PooledKey;
+    attempts: number;
+}
+
+interface Attempted<T> {
+    value: T;
+    model: string;
+    key: PooledKey;
+    attempts: number;
+}
+
+export interface KeyValidation {
+    id: UUID;
+    valid: boolean;
+    error?: string;
+}
 
 /**
- * Sleep utility
+ * Error thrown when a caller aborts a generation
  */
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function cancellationError(): Error {
+    const error = new Error('Request cancelled');
+    error.name = 'AbortError';
+    return error;
 }
 
 /**
- * Calculate delay with exponential backoff and jitter
+ * Failure kind to store on a job, for errors thrown by the generation calls
  */
-function calculateBackoffDelay(attempt: number): number {
-    const baseDelay = RETRY_CONFIG.baseDelayMs * Math.pow(RETRY_CONFIG.backoffMultiplier, attempt);
-    const jitter = Math.random() * 0.3 * baseDelay; // 0-30% jitter
-    return Math.min(baseDelay + jitter, RETRY_CONFIG.maxDelayMs);
+export function getErrorKind(error: unknown): AIErrorKind {
+    return classifyError(error).kind;
 }
 
 /**
- * Rate limit enforcement - wait if calling too fast
+ * Check if an error came from an aborted request
  */
-async function enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastCall = now - RATE_LIMIT.lastCallTime;
-
-    if (timeSinceLastCall < RATE_LIMIT.minDelayBetweenCallsMs) {
-        await sleep(RATE_LIMIT.minDelayBetweenCallsMs - timeSinceLastCall);
-    }
-
-    RATE_LIMIT.lastCallTime = Date.now();
+export function isCancelled(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
 }
 
 /**
- * Check if error is retryable (503, 429, network errors)
+ * Sleep utility - rejects early if the signal aborts
  */
-function isRetryableError(error: unknown): boolean {
-    if (error instanceof Error) {
-        const message = error.message.toLowerCase();
-        return (
-            message.includes('503') ||
-            message.includes('overloaded') ||
-            message.includes('429') ||
-            message.includes('rate limit') ||
-            message.includes('quota') ||
-            message.includes('resource exhausted') ||
-            message.includes('temporarily unavailable') ||
-            message.includes('network') ||
-            message.includes('timeout')
-        );
-    }
-    return false;
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(cancellationError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(cancellationError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
 }
 
 /**
- * Get the next model in the fallback chain
+ * Calculate delay with exponential backoff and jitter
  */
-function getNextModel(): GenerativeModel | null {
-    if (currentModelIndex < fallbackModels.length) {
-        currentModelIndex++;
-        console.log(`🔄 Switching to fallback model: ${MODEL_CHAIN[currentModelIndex]}`);
-        return fallbackModels[currentModelIndex - 1];
-    }
-    return null;
+function calculateBackoffDelay(attempt: number): number {
+    const baseDelay = RETRY_CONFIG.baseDelayMs * Math.pow(RETRY_CONFIG.backoffMultiplier, attempt);
+    const jitter = Math.random() * 0.3 * baseDelay; // 0-30% jitter
+    return Math.min(baseDelay + jitter, RETRY_CONFIG.maxDelayMs);
 }
 
 /**
- * Reset to primary model
+ * Walk the model chain until one model answers with this key.
+ * Failed models are tallied so the caller can route around them.
  */
-function resetToMainModel(): void {
-    currentModelIndex = 0;
+async function validateKeyOnChain(
+    candidate: VisionLLMProvider,
+    key: Pick<ApiKeyEntry, 'id' | 'name'>,
+    chain: string[],
+    modelFailures: Map<string, { count: number; error: string }>
+): Promise<KeyValidation> {
+    const noteFailure = (model: string, error: string) => {
+        const failure = modelFailures.get(model) ?? { count: 0, error };
+        modelFailures.set(model, { count: failure.count + 1, error });
+    };
+
+    for (const model of chain) {
+        try {
+            console.log(`🔍 Validating key "${key.name}" on model: ${model}...`);
+
+            await acquire(model, key.id, estimateRequestTokens(''));
+            if (await candidate.validateKey(model)) {
+                console.log(`✅ Key "${key.name}" works with model: ${model}`);
+                return { id: key.id, valid: true };
+            }
+            noteFailure(model, 'Key validation failed');
+        } catch (err) {
+            const error = classifyError(err, { model });
+            // A rejected key fails the same way on every model
+            if (error instanceof AuthError) {
+                console.warn(`⚠️ Key "${key.name}" was rejected: ${error.message}`);
+                return { id: key.id, valid: false, error: error.message };
+            }
+            // The local daily budget says nothing about whether the model works
+            if (!(error instanceof DailyLimitError)) {
+                noteFailure(model, error.message);
+            }
+            console.warn(`⚠️ Model ${model} validation failed, trying next...`);
+            await sleep(1000);
+        }
+    }
+
+    return { id: key.id, valid: false, error: 'No model in the chain answered' };
 }
 
 /**
- * Initialize Gemini with user's API key
+ * Initialize the configured provider with the user's API keys.
+ * Every key is validated; the ones that work form the rotation pool.
  */
-export async function initializeGemini(apiKey: string): Promise<boolean> {
+export async function initializeProvider(
+    keys: Pick<ApiKeyEntry, 'id' | 'name' | 'key'>[],
+    settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS
+): Promise<KeyValidation[]> {
     try {
-        geminiInstance = new GoogleGenerativeAI(apiKey);
-
-        // Initialize all models in the chain
-        primaryModel = geminiInstance.getGenerativeModel({ model: MODEL_CHAIN[0] });
-        fallbackModels = MODEL_CHAIN.slice(1).map(modelName =>
-            geminiInstance!.getGenerativeModel({ model: modelName })
-        );
-
-        currentModelIndex = 0;
+        const chain = settings.modelChain.length > 0 ? settings.modelChain : DEFAULT_PROVIDER_SETTINGS.modelChain;
+        resetModelHealth();
+
+        const results: KeyValidation[] = [];
+        const pool: PooledKey[] = [];
+        const modelFailures = new Map<string, { count: number; error: string }>();
+        for (const key of keys) {
+            const candidate = createProvider({ type: settings.provider, apiKey: key.key, baseUrl: settings.baseUrl });
+            const result = await validateKeyOnChain(candidate, key, chain, modelFailures);
+            results.push(result);
+            if (result.valid) {
+                pool.push({ id: key.id, name: key.name, provider: candidate });
+            }
+        }
 
-        // Validate with retry logic
-        let validated = false;
-        for (let i = 0; i < MODEL_CHAIN.length && !validated; i++) {
-            try {
-                const testModel = i === 0 ? primaryModel : fallbackModels[i - 1];
-                console.log(`🔍 Validating model: ${MODEL_CHAIN[i]}...`);
-
-                await enforceRateLimit();
-                const result = await testModel.generateContent('Say "OK" if you can hear me.');
-                const response = await result.response;
-                const text = response.text();
-
-                if (text.toLowerCase().includes('ok')) {
-                    validated = true;
-                    currentModelIndex = i;
-                    console.log(`✅ Using model: ${MODEL_CHAIN[i]}`);
+        if (pool.length > 0) {
+            setKeyPool(pool);
+            modelChain = chain;
+            // Route around models that failed with every working key until a cooldown probe shows they work
+            for (const [model, failure] of modelFailures) {
+                if (failure.count >= pool.length) {
+                    tripCircuit(model, failure.error);
                 }
-            } catch (err) {
-                console.warn(`⚠️ Model ${MODEL_CHAIN[i]} validation failed, trying next...`);
-                await sleep(1000);
             }
         }
 
-        return validated;
+        return results;
     } catch (error) {
-        console.error('Failed to initialize Gemini:', error);
-        geminiInstance = null;
-        primaryModel = null;
-        fallbackModels = [];
-        return false;
+        console.error('Failed to initialize provider:', error);
+        setKeyPool([]);
+        const message = error instanceof Error ? error.message : String(error);
+        return keys.map(key => ({ id: key.id, valid: false, error: message }));
     }
 }
 
 /**
- * Check if Gemini is initialized
+ * Drop every key client, e.g. when the key vault locks
  */
-export function isInitialized(): boolean {
-    return primaryModel !== null;
+export function disconnectProvider(): void {
+    setKeyPool([]);
 }
 
 /**
- * Get current active model
+ * Check if a provider is initialized
  */
-function getCurrentModel(): GenerativeModel {
-    if (!primaryModel) {
-        throw new Error('Gemini not initialized. Please provide an API key first.');
-    }
+export function isInitialized(): boolean {
+    return getKeyPoolSize() > 0;
+}
 
-    if (currentModelIndex === 0) {
-        return primaryModel;
+/**
+ * Get the key (and its provider client) for the next call, skipping `exclude`
+ */
+function getKey(exclude?: ReadonlySet<UUID>): PooledKey {
+    const key = getActiveKey(exclude);
+    if (!key) {
+        throw new AuthError('AI provider not initialized. Please provide an API key first.');
     }
+    return key;
+}
 
-    return fallbackModels[currentModelIndex - 1] || primaryModel;
+/**
+ * Error for when every model in the chain is cooling down
+ */
+function allModelsUnavailableError(operationName: string): AIError {
+    const retryAfterMs = getNextRetryDelay(modelChain);
+    return new TransientError(
+        `${operationName} skipped: all models are cooling down after repeated failures. Next retry in ${Math.ceil(retryAfterMs / 1000)}s.`,
+        { retryAfterMs }
+    );
 }
 
 /**
- * Execute API call with retry logic and model fallback
+ * Execute API call with retry logic, routed through the healthy models of the
+ * chain, or only through `pinnedModel` when one is given
  */
-async function executeWithRetry<T>(
-    operation: (model: GenerativeModel) => Promise<T>,
-    operationName: string
-): Promise<T> {
-    let lastError: Error | null = null;
+async function executeWithRetry<T extends { usage: TokenUsage }>(
+    operation: (provider: VisionLLMProvider, model: string) => Promise<T>,
+    operationName: string,
+    estimatedTokens: number,
+    signal?: AbortSignal,
+    pinnedModel?: string
+): Promise<Attempted<T>> {
+    let lastError: AIError | null = null;
     let totalAttempts = 0;
+    let keySwitches = 0;
+
+    // Fail fast when no key is configured
+    getKey();
+    // Healthy models in preference order; open circuits are skipped until their cooldown ends
+    const candidates = pinnedModel ? [pinnedModel] : getRoutableModels(modelChain);
+    if (candidates.length === 0) {
+        throw allModelsUnavailableError(operationName);
+    }
 
-    // Try with current model and fallbacks
-    for (let modelAttempt = 0; modelAttempt <= fallbackModels.length; modelAttempt++) {
-        const currentModel = getCurrentModel();
+    let modelsTried = 0;
+    for (const currentModel of candidates) {
+        modelsTried++;
+        // Keys whose local requests/day budget for this model is spent
+        const dailyLimitedKeys = new Set<UUID>();
 
         // Retry loop for current model
         for (let retry = 0; retry < RETRY_CONFIG.maxRetries; retry++) {
+            if (signal?.aborted) {
+                throw cancellationError();
+            }
+            // Another call may have tripped the circuit or taken the half-open probe meanwhile
+            if (!beginAttempt(currentModel)) {
+                break;
+            }
+            const probing = getCircuitState(currentModel) === 'half_open';
+            const key = getKey(dailyLimitedKeys);
             totalAttempts++;
 
             try {
-                await enforceRateLimit();
-                console.log(`📡 ${operationName} (Model: ${MODEL_CHAIN[currentModelIndex]}, Attempt: ${retry + 1}/${RETRY_CONFIG.maxRetries})`);
+                await acquire(currentModel, key.id, estimatedTokens, signal);
+                console.log(`📡 ${operationName} (Model: ${currentModel}, Key: ${key.name}, Attempt: ${retry + 1}/${RETRY_CONFIG.maxRetries})`);
 
-                const result = await operation(currentModel);
+                const result = await operation(key.provider, currentModel);
+                recordSuccess(currentModel);
+                recordKeyUsage(key.id, result.usage.totalTokens);
+                reconcile(currentModel, key.id, estimatedTokens, result.usage.totalTokens);
 
-                // Success - reset to primary model for next call (if we had fallen back)
-                if (currentModelIndex > 0) {
-                    console.log(`✅ Success with fallback model. Will try primary next time.`);
+                if (currentModel !== modelChain[0]) {
+                    console.log(`✅ Success with fallback model ${currentModel}.`);
                 }
 
-                return result;
+                return { value: result, model: currentModel, key, attempts: totalAttempts };
             } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-                console.warn(`❌ ${operationName} failed:`, lastError.message);
+                // SDKs wrap the abort in their own error types, so trust the signal instead
+                if (signal?.aborted) {
+                    releaseAttempt(currentModel);
+                    console.log(`🛑 ${operationName} cancelled`);
+                    throw cancellationError();
+                }
+
+                lastError = classifyError(error, { model: currentModel });
+                console.warn(`❌ ${operationName} failed (${lastError.kind}):`, lastError.message);
+
+                if (lastError instanceof DailyLimitError) {
+                    // Our own requests/day budget ran out before anything was sent, so neither
+                    // the key nor the model is at fault: try the other keys, then the next model
+                    releaseAttempt(currentModel);
+                    dailyLimitedKeys.add(key.id);
+                    if (dailyLimitedKeys.size < getKeyPoolSize()) {
+                        retry--;
+                        continue;
+                    }
+                    break;
+                }
+
+                if (lastError instanceof QuotaError) {
+                    // Rate limiting says nothing about the model's health, so it never counts against its circuit
+                    releaseAttempt(currentModel);
+                    // A Retry-After hint holds this key's queue; the next acquire waits out the rest
+                    applyRateLimitError(currentModel, key.id, lastError.metadata.retryAfterMs);
+                    if (markKeyExhausted(key.id, lastError.metadata.retryAfterMs)) {
+                        // Another key still has quota, and switching keys does not use up a retry
+                        if (keySwitches++ < getKeyPoolSize()) retry--;
+                    } else if (lastError.metadata.retryAfterMs === undefined) {
+                        const delay = calculateBackoffDelay(retry);
+                        console.log(`⏳ Retrying in ${Math.round(delay / 1000)}s...`);
+                        await sleep(delay, signal);
+                    }
+                    continue;
+                }
 
-                if (isRetryableError(error)) {
+                if (lastError.retryable) {
+                    recordFailure(currentModel, lastError.message);
+                    if (!canRoute(currentModel)) {
+                        break;
+                    }
                     const delay = calculateBackoffDelay(retry);
                     console.log(`⏳ Retrying in ${Math.round(delay / 1000)}s...`);
-                    await sleep(delay);
+                    await sleep(delay, signal);
+                } else if (probing) {
+                    // A recovering model that still errors goes back to cooling down
+                    recordFailure(currentModel, lastError.message);
+                    break;
                 } else {
-                    // Non-retryable error, throw immediately
+                    // Non-retryable error says nothing about model health, throw immediately
+                    releaseAttempt(currentModel);
                     throw lastError;
                 }
             }
         }
 
-        // All retries exhausted for current model, try next model
-        const nextModel = getNextModel();
-        if (!nextModel) {
-            break;
+        if (currentModel !== candidates[candidates.length - 1]) {
+            console.log(`🔄 Switching to next model in chain...`);
+            await sleep(2000, signal); // Wait before trying new model
         }
+    }
+
+    if (totalAttempts === 0) {
+        throw allModelsUnavailableError(operationName);
+    }
+
+    // All healthy models and retries exhausted; keep the kind and metadata of the last failure
+    const message = `${operationName} failed after ${totalAttempts} total attempts across ${modelsTried} models. Last error: ${lastError?.message}`;
+    if (!lastError) {
+        throw new AIError(message);
+    }
+    const ErrorClass = lastError.constructor as AIErrorConstructor;
+    throw new ErrorClass(message, lastError.metadata);
+}
+
+/**
+ * Check if the API refused the structured output request itself
+ */
+function isSchemaRejection(error: unknown): boolean {
+    if (error instanceof InvalidInputError) {
+        const message = error.message.toLowerCase();
+        return message.includes('schema') || message.includes('mime');
+    }
+    return false;
+}
+
+interface ReplyRequest {
+    /** Module schema to request native JSON mode with */
+    schemaKind?: OutputSchemaKind;
+    signal?: AbortSignal;
+    /** Stream the reply, reporting the partially parsed output */
+    onProgress?: (progress: StreamProgress) => void;
+    /** Only try this model instead of the configured chain */
+    model?: string;
+}
+
+/**
+ * Provider options that stream into onProgress, starting from an empty buffer
+ */
+function streamTo(onProgress: ReplyRequest['onProgress']): Pick<ProviderRequestOptions, 'onText'> {
+    if (!onProgress) return {};
+
+    let text = '';
+    let partial: unknown = null;
+    return {
+        onText: delta => {
+            text += delta;
+            partial = parsePartialJson(text) ?? partial;
+            // Estimated until the API reports real usage
+            onProgress({ text, partial, outputTokens: estimateTokens(text) });
+        },
+    };
+}
 
-        console.log(`🔄 Switching to next model in chain...`);
-        await sleep(2000); // Wait before trying new model
+/**
+ * Request native JSON mode when the model supports it, otherwise plain text
+ */
+async function requestReply(
+    llm: VisionLLMProvider,
+    model: string,
+    { schemaKind, signal, onProgress }: ReplyRequest,
+    call: (options: ProviderRequestOptions) => Promise<ProviderResponse>
+): Promise<Omit<ModelReply, 'model' | 'key' | 'attempts'>> {
+    const structured = schemaKind !== undefined
+        && llm.supportsStructuredOutput(model)
+        && !structuredOutputRejected.has(structuredOutputKey(model, schemaKind));
+
+    if (!structured) {
+        return { ...await call({ signal, ...streamTo(onProgress) }), outputMode: 'text' };
     }
 
-    // All models and retries exhausted
-    resetToMainModel();
-    throw new Error(`${operationName} failed after ${totalAttempts} total attempts across ${currentModelIndex + 1} models. Last error: ${lastError?.message}`);
+    try {
+        const options = { responseSchema: OUTPUT_SCHEMAS[schemaKind], signal, ...streamTo(onProgress) };
+        return { ...await call(options), outputMode: 'structured' };
+    } catch (error) {
+        if (!isSchemaRejection(error)) {
+            throw error;
+        }
+        console.warn(`⚠️ ${model} rejected the ${schemaKind} response schema, falling back to text extraction`);
+        structuredOutputRejected.add(structuredOutputKey(model, schemaKind));
+        return { ...await call({ signal, ...streamTo(onProgress) }), outputMode: 'text' };
+    }
 }
 
 /**
@@ -240,102 +473,208 @@ async function executeWithRetry<T>(
 async function generateWithImage(
     systemPrompt: string,
     imageBase64: string,
-    mimeType: string
-): Promise<string> {
-    return executeWithRetry(async (model) => {
-        const result = await model.generateContent([
-            systemPrompt,
-            {
-                inlineData: {
-                    data: imageBase64,
-                    mimeType: mimeType,
-                },
-            },
-        ]);
-
-        const response = await result.response;
-        return response.text();
-    }, 'generateWithImage');
+    mimeType: string,
+    request: ReplyRequest = {}
+): Promise<ModelReply> {
+    const { value, model, key, attempts } = await executeWithRetry(
+        (llm, model) => requestReply(llm, model, request,
+            options => llm.generateWithImage(model, systemPrompt, imageBase64, mimeType, options)),
+        'generateWithImage',
+        estimateRequestTokens(systemPrompt, 1),
+        request.signal,
+        request.model
+    );
+    return { ...value, model, key, attempts };
 }
 
 /**
  * Generate content with text - with retry
  */
-async function generateWithText(systemPrompt: string, userInput: string): Promise<string> {
-    return executeWithRetry(async (model) => {
-        const result = await model.generateContent([
-            systemPrompt,
-            userInput,
-        ]);
+async function generateWithText(systemPrompt: string, userInput: string, request: ReplyRequest = {}): Promise<ModelReply> {
+    const { value, model, key, attempts } = await executeWithRetry(
+        (llm, model) => requestReply(llm, model, request,
+            options => llm.generateWithText(model, systemPrompt, userInput, options)),
+        'generateWithText',
+        estimateRequestTokens(systemPrompt + userInput),
+        request.signal,
+        request.model
+    );
+    return { ...value, model, key, attempts };
+}
+
+/**
+ * Total usage and cost over every reply that went into one output
+ */
+function summarizeUsage(replies: ModelReply[]): JobUsage {
+    const last = replies[replies.length - 1];
+    const usage: JobUsage = {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        model: last.model,
+        apiKeyId: last.key.id,
+        apiKeyName: last.key.name,
+        calls: replies.length,
+        attempts: 0,
+        costUsd: 0,
+    };
+    for (const reply of replies) {
+        usage.inputTokens += reply.usage.inputTokens;
+        usage.outputTokens += reply.usage.outputTokens;
+        usage.totalTokens += reply.usage.totalTokens;
+        usage.attempts += reply.attempts;
+        usage.costUsd += calculateCost(reply.model, reply.usage);
+        if (reply.usage.estimated) usage.estimated = true;
+    }
+    return usage;
+}
 
-        const response = await result.response;
-        return response.text();
-    }, 'generateWithText');
+export interface GenerationOptions {
+    /** Send one repair re-prompt quoting the violations when output fails its schema */
+    autoRepair?: boolean;
+    /** Aborts retries, backoff waits and the in-flight request */
+    signal?: AbortSignal;
+    /** Stream the response; called as the output grows. Validation still runs once it closes. */
+    onProgress?: (progress: StreamProgress) => void;
+    /** Run on this model only, e.g. to re-run a job against a specific model */
+    model?: string;
+}
+
+export interface GenerationResult<T> {
+    data: T;
+    validation: OutputValidation;
+    extraction: ExtractionReport;
+    outputMode: OutputMode;
+    usage: JobUsage;
 }
 
 /**
- * Extract JSON from response text
+ * Extract the JSON document from a reply, as a ParseError when there is none
  */
-function extractJson<T>(text: string): T {
-    const codeBlockMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-        return JSON.parse(codeBlockMatch[1].trim());
+function parseReply<T>(reply: ModelReply): JsonExtraction<T> {
+    try {
+        return extractJson<T>(reply.text);
+    } catch (error) {
+        throw new ParseError(error instanceof Error ? error.message : String(error), {
+            model: reply.model,
+            details: reply.text,
+        });
     }
+}
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+/**
+ * Extract and validate a module output, optionally asking the model to repair it
+ */
+async function finalizeOutput<T>(
+    kind: OutputSchemaKind,
+    systemPrompt: string,
+    reply: ModelReply,
+    options: GenerationOptions
+): Promise<GenerationResult<T>> {
+    let { data, report: extraction } = parseReply<T>(reply);
+    let outputMode = reply.outputMode;
+    const replies = [reply];
+    if (extraction.repairs.length > 0) {
+        console.log(`🔧 ${kind} output auto-fixed: ${extraction.repairs.join(', ')}`);
+    }
+    let violations = validateOutput(kind, data);
+    let repairAttempted = false;
+
+    if (violations.length > 0 && options.autoRepair) {
+        repairAttempted = true;
+        console.log(`🩹 ${kind} output has ${violations.length} schema violation(s), requesting repair...`);
+        try {
+            const repairedReply = await generateWithText(
+                systemPrompt,
+                buildRepairPrompt(violations, reply.text),
+                { ...options, schemaKind: kind }
+            );
+            replies.push(repairedReply);
+            const repaired = parseReply<T>(repairedReply);
+            const repairedViolations = validateOutput(kind, repaired.data);
+            if (repairedViolations.length < violations.length) {
+                data = repaired.data;
+                extraction = repaired.report;
+                outputMode = repairedReply.outputMode;
+                violations = repairedViolations;
+            }
+        } catch (error) {
+            if (isCancelled(error)) {
+                throw error;
+            }
+            console.warn('⚠️ Repair re-prompt failed, keeping original output:', error);
+        }
     }
 
-    throw new Error('No valid JSON found in response');
+    return {
+        data,
+        validation: {
+            schemaId: getSchemaId(kind),
+            valid: violations.length === 0,
+            violations,
+            repairAttempted,
+        },
+        extraction,
+        outputMode,
+        usage: summarizeUsage(replies),
+    };
 }
 
 // Grid-to-JSON
 export async function analyzeIdentity(
     imageBase64: string,
     mimeType: string,
-    systemPrompt: string
-): Promise<IdentityJSON> {
-    const response = await generateWithImage(systemPrompt, imageBase64, mimeType);
-    return extractJson<IdentityJSON>(response);
+    systemPrompt: string,
+    options: GenerationOptions = {}
+): Promise<GenerationResult<IdentityJSON>> {
+    const reply = await generateWithImage(systemPrompt, imageBase64, mimeType, { ...options, schemaKind: 'identity' });
+    return finalizeOutput<IdentityJSON>('identity', systemPrompt, reply, options);
 }
 
 export async function generatePanelSpec(
     identity: IdentityJSON,
     panelNumber: number,
-    systemPrompt: string
-): Promise<object> {
+    systemPrompt: string,
+    options: GenerationOptions = {}
+): Promise<GenerationResult<PanelJSON>> {
     const userInput = `Generate panel specification for Panel ${panelNumber}:\n${JSON.stringify(identity, null, 2)}`;
-    const response = await generateWithText(systemPrompt, userInput);
-    return extractJson<object>(response);
+    const reply = await generateWithText(systemPrompt, userInput, { ...options, schemaKind: 'panel' });
+    return finalizeOutput<PanelJSON>('panel', systemPrompt, reply, options);
 }
 
 // Vision-to-JSON
 export async function visualSweep(
     imageBase64: string,
     mimeType: string,
-    systemPrompt: string
-): Promise<VisionJSON> {
-    const response = await generateWithImage(systemPrompt, imageBase64, mimeType);
-    return extractJson<VisionJSON>(response);
+    systemPrompt: string,
+    options: GenerationOptions = {}
+): Promise<GenerationResult<VisionJSON>> {
+    const reply = await generateWithImage(systemPrompt, imageBase64, mimeType, { ...options, schemaKind: 'vision' });
+    return finalizeOutput<VisionJSON>('vision', systemPrompt, reply, options);
 }
 
 // Realistic-to-JSON
 export async function generateSpecFromText(
     textInput: string,
-    systemPrompt: string
-): Promise<RealisticJSON> {
-    const response = await generateWithText(systemPrompt, `Transform into visual spec:\n${textInput}`);
-    return extractJson<RealisticJSON>(response);
+    systemPrompt: string,
+    options: GenerationOptions = {}
+): Promise<GenerationResult<RealisticJSON>> {
+    const reply = await generateWithText(
+        systemPrompt,
+        `Transform into visual spec:\n${textInput}`,
+        { ...options, schemaKind: 'realistic' }
+    );
+    return finalizeOutput<RealisticJSON>('realistic', systemPrompt, reply, options);
 }
 
 export async function generateSpecFromImage(
     imageBase64: string,
     mimeType: string,
-    systemPrompt: string
-): Promise<RealisticJSON> {
-    const response = await generateWithImage(systemPrompt, imageBase64, mimeType);
-    return extractJson<RealisticJSON>(response);
+    systemPrompt: string,
+    options: GenerationOptions = {}
+): Promise<GenerationResult<RealisticJSON>> {
+    const reply = await generateWithImage(systemPrompt, imageBase64, mimeType, { ...options, schemaKind: 'realistic' });
+    return finalizeOutput<RealisticJSON>('realistic', systemPrompt, reply, options);
 }
 
 export async function fileToBase64(file: File): Promise<{ base64: string; mimeType: string }> {
@@ -355,16 +694,29 @@ export async function fileToBase64(file: File): Promise<{ base64: string; mimeTy
  * Get current model info for UI display
  */
 export function getCurrentModelInfo(): { name: string; index: number; total: number } {
+    // The model the next call will route to; the last in the chain when all are cooling down
+    const [next] = getRoutableModels(modelChain);
+    const index = next ? modelChain.indexOf(next) : modelChain.length - 1;
     return {
-        name: MODEL_CHAIN[currentModelIndex] || 'unknown',
-        index: currentModelIndex,
-        total: MODEL_CHAIN.length,
+        name: modelChain[index] || 'unknown',
+        index,
+        total: modelChain.length,
     };
 }
 
+/**
+ * Circuit breaker state of every model in the chain
+ */
+export function getModelHealth(): ModelHealthSnapshot[] {
+    return getHealthSnapshot(modelChain);
+}
+
 export default {
-    initializeGemini,
+    initializeProvider,
+    disconnectProvider,
     isInitialized,
+    isCancelled,
+    getErrorKind,
     analyzeIdentity,
     generatePanelSpec,
     visualSweep,
@@ -372,4 +724,5 @@ export default {
     generateSpecFromImage,
     fileToBase64,
     getCurrentModelInfo,
+    getModelHealth,
 };
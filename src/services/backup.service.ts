@@ -0,0 +1,348 @@
+/**
+ * Backup Service
+ * Exports the whole workspace to one ZIP (jobs and their manifests, batches,
+ * prompts, settings and every asset with its payload) and restores it, either replacing the
+ * current data or merging into it. API keys are never included.
+ */
+
+import db, { clearAllData, generateUUID, settingsOperations } from '../db';
+import { retypeModuleOutput, splitAssetHashes } from '../db/migrations';
+import { useAppStore } from '../state';
+import type { Asset, Batch, Job, JobManifest, PromptVersion, ProviderSettings, UserSettings, UUID } from '../types';
+import { createZip, readZip, type ZipEntry } from '../utils/zip';
+import { hasJobsInFlight } from './job.service';
+
+const BACKUP_FORMAT = 'ai-image-platform-backup';
+const BACKUP_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+/** How an asset payload was stored, so it is restored in the same form */
+type PayloadEncoding = 'blob' | 'data_url' | 'text';
+
+interface BackupManifest {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    counts: Record<'jobs' | 'manifests' | 'batches' | 'assets' | 'prompts', number>;
+}
+
+interface AssetRecord extends Omit<Asset, 'data'> {
+    payload: { path: string; encoding: PayloadEncoding };
+}
+
+interface BackupSettings {
+    settings: Omit<UserSettings, 'apiKeys' | 'keyVault'> | null;
+    preferences: {
+        providerSettings: ProviderSettings;
+        autoRepairOutput: boolean;
+    };
+}
+
+export interface ImportSummary {
+    mode: ImportMode;
+    jobs: number;
+    batches: number;
+    assets: number;
+    prompts: number;
+    /** Records that got a new id because theirs was already taken */
+    remapped: number;
+    /** Prompts and images already in the workspace, linked to instead of copied */
+    deduplicated: number;
+}
+
+function dataUrlToBytes(url: string): { mimeType: string; bytes: Uint8Array } | null {
+    const match = url.match(/^data:([^;,]*);base64,(.*)$/s);
+    if (!match) return null;
+    return { mimeType: match[1], bytes: Uint8Array.from(atob(match[2]), ch => ch.charCodeAt(0)) };
+}
+
+function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+function payloadPath(asset: Asset): string {
+    return `assets/${asset.id}/${asset.filename.replace(/[\\/]/g, '_') || 'payload'}`;
+}
+
+async function encodePayload(asset: Asset): Promise<{ encoding: PayloadEncoding; data: Uint8Array | string }> {
+    if (asset.data instanceof Blob) {
+        return { encoding: 'blob', data: new Uint8Array(await asset.data.arrayBuffer()) };
+    }
+    const decoded = dataUrlToBytes(asset.data);
+    return decoded ? { encoding: 'data_url', data: decoded.bytes } : { encoding: 'text', data: asset.data };
+}
+
+function decodePayload(bytes: Uint8Array, encoding: PayloadEncoding, mimeType: string): Blob | string {
+    switch (encoding) {
+        case 'blob':
+            return new Blob([bytes as BlobPart], { type: mimeType });
+        case 'data_url':
+            return bytesToDataUrl(bytes, mimeType);
+        case 'text':
+            return new TextDecoder().decode(bytes);
+    }
+}
+
+/**
+ * Write the workspace to a ZIP
+ */
+export async function exportBackup(): Promise<Blob> {
+    const [jobs, manifests, batches, assets, prompts, settings] = await Promise.all([
+        db.jobs.toArray(),
+        db.manifests.toArray(),
+        db.batches.toArray(),
+        db.assets.toArray(),
+        db.prompts.toArray(),
+        settingsOperations.get(),
+    ]);
+
+    const entries: ZipEntry[] = [];
+    const assetRecords: AssetRecord[] = [];
+    for (const asset of assets) {
+        const { data: _data, ...record } = asset;
+        const path = payloadPath(asset);
+        const payload = await encodePayload(asset);
+        entries.push({ name: path, data: payload.data });
+        assetRecords.push({ ...record, payload: { path, encoding: payload.encoding } });
+    }
+
+    const { providerSettings, autoRepairOutput } = useAppStore.getState();
+    let safeSettings: BackupSettings['settings'] = null;
+    if (settings) {
+        const { apiKeys: _apiKeys, keyVault: _keyVault, ...rest } = settings;
+        safeSettings = rest;
+    }
+    const backupSettings: BackupSettings = {
+        settings: safeSettings,
+        preferences: { providerSettings, autoRepairOutput },
+    };
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        counts: { jobs: jobs.length, manifests: manifests.length, batches: batches.length, assets: assets.length, prompts: prompts.length },
+    };
+
+    return createZip([
+        { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+        { name: 'jobs.json', data: JSON.stringify(jobs, null, 2) },
+        { name: 'job_manifests.json', data: JSON.stringify(manifests, null, 2) },
+        { name: 'batches.json', data: JSON.stringify(batches, null, 2) },
+        { name: 'prompts.json', data: JSON.stringify(prompts, null, 2) },
+        { name: 'assets.json', data: JSON.stringify(assetRecords, null, 2) },
+        { name: 'settings.json', data: JSON.stringify(backupSettings, null, 2) },
+        ...entries,
+    ]);
+}
+
+function readJson<T>(files: Map<string, Uint8Array>, name: string): T {
+    const bytes = files.get(name);
+    if (!bytes) {
+        throw new Error(`Backup is missing ${name}`);
+    }
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+}
+
+/**
+ * Ids that collide with existing records get a fresh one; everything else keeps its id
+ */
+async function buildIdMap(ids: UUID[], exists: (ids: UUID[]) => Promise<(unknown | undefined)[]>): Promise<Map<UUID, UUID>> {
+    const existing = await exists(ids);
+    const map = new Map<UUID, UUID>();
+    ids.forEach((id, index) => {
+        if (existing[index] !== undefined) {
+            map.set(id, generateUUID());
+        }
+    });
+    return map;
+}
+
+/**
+ * Map each imported record that matches an existing one on `key` to the
+ * existing record's id, overriding any fresh id it was given
+ */
+function linkDuplicates<T extends { id: UUID }>(
+    imported: T[],
+    existing: T[],
+    key: (record: T) => string | undefined,
+    ids: Map<UUID, UUID>
+): Set<UUID> {
+    const existingIds = new Map<string, UUID>();
+    for (const record of existing) {
+        const value = key(record);
+        if (value !== undefined) existingIds.set(value, record.id);
+    }
+    const duplicates = new Set<UUID>();
+    for (const record of imported) {
+        const value = key(record);
+        const match = value === undefined ? undefined : existingIds.get(value);
+        if (match !== undefined) {
+            ids.set(record.id, match);
+            duplicates.add(record.id);
+        }
+    }
+    return duplicates;
+}
+
+const promptKey = (prompt: PromptVersion) => `${prompt.module}@${prompt.version}`;
+const imageHash = (asset: Asset) => asset.mimeType.startsWith('image/') ? asset.sha256 : undefined;
+
+/**
+ * Restore a backup ZIP. Replace wipes jobs, batches, assets and prompts
+ * first and also restores settings; merge keeps everything, gives imported
+ * records new ids where they collide, and links prompt versions and images
+ * the workspace already has instead of copying them.
+ */
+export async function importBackup(file: Blob, mode: ImportMode): Promise<ImportSummary> {
+    if (hasJobsInFlight()) {
+        throw new Error('Wait for running jobs to finish before restoring a backup');
+    }
+
+    const files = await readZip(file);
+    const manifest = readJson<BackupManifest>(files, 'manifest.json');
+    if (manifest.format !== BACKUP_FORMAT) {
+        throw new Error('Not a workspace backup');
+    }
+    if (manifest.version > BACKUP_VERSION) {
+        throw new Error(`Backup version ${manifest.version} is newer than this app supports`);
+    }
+
+    const jobs = readJson<Job[]>(files, 'jobs.json');
+    // Backups from before job manifests existed have no job_manifests.json
+    const manifests = files.has('job_manifests.json') ? readJson<JobManifest[]>(files, 'job_manifests.json') : [];
+    const batches = readJson<Batch[]>(files, 'batches.json');
+    const prompts = readJson<PromptVersion[]>(files, 'prompts.json');
+    const assetRecords = readJson<AssetRecord[]>(files, 'assets.json');
+    const backupSettings = readJson<BackupSettings>(files, 'settings.json');
+
+    const jobModules = new Map(jobs.map(job => [job.id, job.module]));
+    const assets: Asset[] = assetRecords.map(({ payload, ...record }) => {
+        const bytes = files.get(payload.path);
+        if (!bytes) {
+            throw new Error(`Backup is missing the payload of asset ${record.filename}`);
+        }
+        const asset: Asset = { ...record, data: decodePayload(bytes, payload.encoding, record.mimeType) };
+        // Backups from before v6 hashed the uploaded file only
+        if (!asset.sourceSha256) splitAssetHashes(asset);
+        // Backups from before v7 filed Vision and Realistic outputs as identity_json
+        retypeModuleOutput(asset, jobModules);
+        return asset;
+    });
+
+    let jobIds = new Map<UUID, UUID>();
+    let batchIds = new Map<UUID, UUID>();
+    let assetIds = new Map<UUID, UUID>();
+    let promptIds = new Map<UUID, UUID>();
+    let activeModules = new Set<string>();
+    let duplicateAssets = new Set<UUID>();
+    let duplicatePrompts = new Set<UUID>();
+    let remapped = 0;
+
+    if (mode === 'merge') {
+        [jobIds, batchIds, assetIds, promptIds] = await Promise.all([
+            buildIdMap(jobs.map(j => j.id), ids => db.jobs.bulkGet(ids)),
+            buildIdMap(batches.map(b => b.id), ids => db.batches.bulkGet(ids)),
+            buildIdMap(assets.map(a => a.id), ids => db.assets.bulkGet(ids)),
+            buildIdMap(prompts.map(p => p.id), ids => db.prompts.bulkGet(ids)),
+        ]);
+        const currentPrompts = await db.prompts.toArray();
+        activeModules = new Set(currentPrompts.filter(p => p.isActive).map(p => p.module));
+
+        const hashes = assets.map(imageHash).filter((hash): hash is string => hash !== undefined);
+        const currentImages = hashes.length > 0 ? await db.assets.where('sha256').anyOf(hashes).toArray() : [];
+        duplicatePrompts = linkDuplicates(prompts, currentPrompts, promptKey, promptIds);
+        duplicateAssets = linkDuplicates(assets, currentImages, imageHash, assetIds);
+        remapped = jobIds.size + batchIds.size
+            + assetIds.size - duplicateAssets.size
+            + promptIds.size - duplicatePrompts.size;
+    }
+
+    const remap = (map: Map<UUID, UUID>, id: UUID) => map.get(id) ?? id;
+    const remapOptional = (map: Map<UUID, UUID>, id?: UUID) => id === undefined ? undefined : remap(map, id);
+
+    const importedJobs = jobs.map(job => ({
+        ...job,
+        id: remap(jobIds, job.id),
+        batchId: remapOptional(batchIds, job.batchId),
+        parentJobId: remapOptional(jobIds, job.parentJobId),
+        inputRefs: job.inputRefs.map(ref => remap(assetIds, ref)),
+        outputRefs: job.outputRefs.map(ref => remap(assetIds, ref)),
+    }));
+    const importedManifests = manifests.map(manifest => {
+        const assets = manifest.inputSnapshot.assets;
+        return {
+            ...manifest,
+            jobId: remap(jobIds, manifest.jobId),
+            inputSnapshot: Array.isArray(assets)
+                ? { ...manifest.inputSnapshot, assets: assets.map(asset => ({ ...asset, id: remap(assetIds, asset.id) })) }
+                : manifest.inputSnapshot,
+        };
+    });
+    const importedBatches = batches.map(batch => ({
+        ...batch,
+        id: remap(batchIds, batch.id),
+        jobIds: batch.jobIds.map(id => remap(jobIds, id)),
+    }));
+    const importedAssets = assets.filter(asset => !duplicateAssets.has(asset.id)).map(asset => {
+        const sourceAssetId = asset.metadata.sourceAssetId;
+        return {
+            ...asset,
+            id: remap(assetIds, asset.id),
+            jobId: remapOptional(jobIds, asset.jobId),
+            batchId: remapOptional(batchIds, asset.batchId),
+            metadata: typeof sourceAssetId === 'string'
+                ? { ...asset.metadata, sourceAssetId: remap(assetIds, sourceAssetId) }
+                : asset.metadata,
+        };
+    });
+    // A merge never takes over the module's active prompt
+    const importedPrompts = prompts.filter(prompt => !duplicatePrompts.has(prompt.id)).map(prompt => ({
+        ...prompt,
+        id: remap(promptIds, prompt.id),
+        isActive: prompt.isActive && !activeModules.has(prompt.module),
+    }));
+
+    // clearAllData also empties thumbnails, so that table has to be part of the transaction
+    await db.transaction('rw', [db.jobs, db.manifests, db.batches, db.assets, db.thumbnails, db.prompts], async () => {
+        if (mode === 'replace') {
+            await clearAllData();
+        }
+        await db.jobs.bulkAdd(importedJobs);
+        await db.manifests.bulkAdd(importedManifests);
+        await db.batches.bulkAdd(importedBatches);
+        await db.assets.bulkAdd(importedAssets);
+        await db.prompts.bulkAdd(importedPrompts);
+    });
+
+    if (mode === 'replace') {
+        if (backupSettings.settings) {
+            await settingsOperations.update(backupSettings.settings);
+        }
+        const { setProviderSettings, setAutoRepairOutput } = useAppStore.getState();
+        setProviderSettings(backupSettings.preferences.providerSettings);
+        setAutoRepairOutput(backupSettings.preferences.autoRepairOutput);
+    }
+
+    const summary: ImportSummary = {
+        mode,
+        jobs: importedJobs.length,
+        batches: importedBatches.length,
+        assets: importedAssets.length,
+        prompts: importedPrompts.length,
+        remapped,
+        deduplicated: duplicateAssets.size + duplicatePrompts.size,
+    };
+    console.log(`📦 Restored backup from ${manifest.exportedAt} (${mode}):`, summary);
+    return summary;
+}
+
+export default {
+    exportBackup,
+    importBackup,
+};
@@ -3,9 +3,12 @@
  */
 
 import { batchOperations, jobOperations, generateUUID } from '../db';
-import type { Batch, BatchConfig, ModuleType, UUID, RetryPolicy } from '../types';
-import { createJob } from './job.service';
+import type { AIErrorKind, Batch, BatchConfig, Job, ModuleType, UUID, RetryPolicy } from '../types';
+import { createJob, failJob } from './job.service';
+import { executeJob } from './jobRunner.service';
+import { getErrorKind, isCancelled, isInitialized } from './ai.service';
 import { getActivePrompt } from './promptBrain.service';
+import { aggregateUsage } from './billing.service';
 
 const DEFAULT_RETRY_POLICY: RetryPolicy = {
     maxRetries: 3,
@@ -60,16 +63,200 @@ export async function getAllBatches(limit?: number): Promise<Batch[]> {
     return await batchOperations.getAll(limit);
 }
 
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+interface BatchRun {
+    batchId: UUID;
+    inFlight: Set<UUID>;
+    backingOff: Set<UUID>;
+    pumping: boolean;
+    repump: boolean;
+}
+
+// One run per batch that currently has work being dispatched in this tab
+const activeRuns = new Map<UUID, BatchRun>();
+
+/**
+ * Delay before the next attempt of a job, following the batch retry policy
+ */
+function getRetryDelay(policy: RetryPolicy, retryCount: number): number {
+    return policy.backoffMs * Math.pow(policy.backoffMultiplier, retryCount);
+}
+
+/**
+ * Fill free concurrency slots with pending jobs of a running batch
+ */
+async function pump(run: BatchRun): Promise<void> {
+    if (run.pumping) {
+        run.repump = true;
+        return;
+    }
+    run.pumping = true;
+    run.repump = false;
+
+    try {
+        const batch = await batchOperations.get(run.batchId);
+        const jobs = batch ? await jobOperations.getByBatch(run.batchId) : [];
+        const pending = jobs
+            .filter(j => j.status === 'pending' && !run.inFlight.has(j.id) && !run.backingOff.has(j.id))
+            .sort((a, b) => a.createdAt - b.createdAt);
+
+        if (batch?.status === 'running') {
+            const freeSlots = Math.max(batch.config.concurrency - run.inFlight.size, 0);
+            for (const job of pending.slice(0, freeSlots)) {
+                dispatch(run, batch, job).catch(error => console.error(`Batch job ${job.id} dispatch failed:`, error));
+            }
+        }
+
+        // Paused, deleted or drained: drop the run once nothing is outstanding
+        const idle = run.inFlight.size === 0 && run.backingOff.size === 0;
+        if (idle && (batch?.status !== 'running' || pending.length === 0)) {
+            activeRuns.delete(run.batchId);
+            if (batch) await updateBatchProgress(run.batchId);
+        }
+    } finally {
+        run.pumping = false;
+    }
+
+    // A job settled while we were reading state; look again so its slot is not lost
+    if (run.repump && activeRuns.has(run.batchId)) {
+        await pump(run);
+    }
+}
+
+// Failures a retry cannot fix; the job fails straight away instead of using up the retry budget
+const PERMANENT_FAILURES: AIErrorKind[] = ['auth', 'safety', 'invalid_input'];
+
+/**
+ * Put a job back in the queue once its backoff is over, unless it was
+ * cancelled while waiting
+ */
+async function requeueAfterBackoff(run: BatchRun, jobId: UUID): Promise<void> {
+    try {
+        const current = await jobOperations.get(jobId);
+        if (current && current.status !== 'cancelled') {
+            await jobOperations.incrementRetry(jobId);
+        }
+    } finally {
+        run.backingOff.delete(jobId);
+    }
+    await pump(run);
+}
+
+/**
+ * Execute one job, applying the batch retry policy on failure
+ */
+async function dispatch(run: BatchRun, batch: Batch, job: Job): Promise<void> {
+    run.inFlight.add(job.id);
+
+    try {
+        await executeJob(job);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const errorKind = getErrorKind(error);
+        const policy = batch.config.retryPolicy;
+
+        if (isCancelled(error)) {
+            // cancelJob already recorded the outcome
+            console.log(`🛑 Batch job ${job.id} cancelled`);
+        } else if (job.retryCount < policy.maxRetries && !PERMANENT_FAILURES.includes(errorKind)) {
+            const delay = getRetryDelay(policy, job.retryCount);
+            console.warn(`⏳ Batch job ${job.id} failed, retrying in ${Math.round(delay / 1000)}s: ${message}`);
+            run.backingOff.add(job.id);
+            setTimeout(() => {
+                requeueAfterBackoff(run, job.id).catch(error => console.error(`Batch job ${job.id} retry failed:`, error));
+            }, delay);
+        } else {
+            await failJob(job.id, message, errorKind);
+        }
+    } finally {
+        run.inFlight.delete(job.id);
+        await updateBatchProgress(run.batchId);
+        await pump(run);
+    }
+}
+
+/**
+ * Start dispatching jobs for a batch if it is not already being processed
+ */
+export async function scheduleBatch(id: UUID): Promise<void> {
+    let run = activeRuns.get(id);
+    if (!run) {
+        run = { batchId: id, inFlight: new Set(), backingOff: new Set(), pumping: false, repump: false };
+        activeRuns.set(id, run);
+    }
+    await pump(run);
+}
+
+/**
+ * Check whether this tab is currently dispatching jobs for a batch
+ */
+export function isBatchScheduled(id: UUID): boolean {
+    return activeRuns.has(id);
+}
+
+let recovery: Promise<number> | null = null;
+
+/**
+ * Crash recovery, run once per page load. Jobs left `running` by a closed tab
+ * are put back to `pending` (keeping their retry count) and running batches
+ * are handed back to the scheduler. Paused batches are picked up on resume.
+ * Without connected keys the jobs would fail with auth errors, so nothing is
+ * touched until a later call finds the provider initialized.
+ */
+export function recoverInterruptedBatches(): Promise<number> {
+    if (!isInitialized()) {
+        return Promise.resolve(0);
+    }
+    if (!recovery) {
+        recovery = (async () => {
+            const stuckJobs = await jobOperations.getByStatus('running');
+            const batchIds = new Set<UUID>();
+            let recovered = 0;
+
+            for (const job of stuckJobs) {
+                if (!job.batchId || activeRuns.get(job.batchId)?.inFlight.has(job.id)) continue;
+                const batch = await batchOperations.get(job.batchId);
+                if (batch?.status !== 'running' && batch?.status !== 'paused') continue;
+
+                await jobOperations.update(job.id, { status: 'pending', startedAt: undefined });
+                batchIds.add(job.batchId);
+                recovered++;
+            }
+
+            const running = await batchOperations.getByStatus('running');
+            for (const batch of running) {
+                batchIds.add(batch.id);
+            }
+
+            for (const id of batchIds) {
+                await scheduleBatch(id);
+            }
+
+            if (recovered > 0) {
+                console.log(`♻️ Recovered ${recovered} interrupted job(s) across ${batchIds.size} batch(es)`);
+            }
+            return recovered;
+        })();
+    }
+    return recovery;
+}
+
 export async function startBatch(id: UUID): Promise<void> {
     await batchOperations.update(id, { status: 'running', startedAt: Date.now() });
+    await scheduleBatch(id);
 }
 
 export async function pauseBatch(id: UUID): Promise<void> {
+    // In-flight jobs finish; the scheduler stops handing out new ones
     await batchOperations.update(id, { status: 'paused' });
 }
 
 export async function resumeBatch(id: UUID): Promise<void> {
     await batchOperations.update(id, { status: 'running' });
+    await scheduleBatch(id);
 }
 
 export async function updateBatchProgress(id: UUID): Promise<void> {
@@ -79,12 +266,15 @@ export async function updateBatchProgress(id: UUID): Promise<void> {
     const jobs = await jobOperations.getByBatch(id);
     const completed = jobs.filter(j => j.status === 'completed').length;
     const failed = jobs.filter(j => j.status === 'failed').length;
+    const cancelled = jobs.filter(j => j.status === 'cancelled').length;
 
     await batchOperations.updateProgress(id, completed, failed);
+    await batchOperations.update(id, { usage: aggregateUsage(jobs) });
 
-    if (completed + failed === batch.imageCount) {
+    if (completed + failed + cancelled === batch.imageCount) {
+        // A batch where every job was cancelled produced nothing, so it is not reported as completed
         await batchOperations.update(id, {
-            status: failed > 0 ? 'failed' : 'completed',
+            status: failed > 0 || completed === 0 ? 'failed' : 'completed',
             completedAt: Date.now(),
         });
     }
@@ -106,7 +296,8 @@ export async function retryFailedJobs(id: UUID): Promise<number> {
     }
 
     if (retriedCount > 0) {
-        await batchOperations.update(id, { status: 'running' });
+        await batchOperations.update(id, { status: 'running', completedAt: undefined });
+        await scheduleBatch(id);
     }
 
     return retriedCount;
@@ -131,6 +322,9 @@ export default {
     createBatch,
     getBatch,
     getAllBatches,
+    scheduleBatch,
+    isBatchScheduled,
+    recoverInterruptedBatches,
     startBatch,
     pauseBatch,
     resumeBatch,
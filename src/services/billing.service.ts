@@ -0,0 +1,140 @@
+/**
+ * Billing Service
+ * Token pricing from configs/billing.yaml and spend aggregation
+ */
+
+import billingYaml from '../../configs/billing.yaml?raw';
+import { jobOperations } from '../db';
+import { parseYaml, section, type YamlValue } from '../utils/yaml';
+import type { BatchUsage, Job, ModuleType, TokenUsage } from '../types';
+
+export interface ModelPrice {
+    /** USD per 1M input tokens */
+    input: number;
+    /** USD per 1M output tokens */
+    output: number;
+}
+
+export interface SpendRow {
+    day: string;
+    module: ModuleType;
+    jobs: number;
+    totalTokens: number;
+    costUsd: number;
+    /** Some of the jobs only have estimated token counts */
+    estimated?: boolean;
+}
+
+export interface BatchCostEstimate {
+    perJobUsd: number;
+    totalUsd: number;
+    totalTokens: number;
+    /** Completed jobs the average is based on; 0 means no history yet */
+    sampleSize: number;
+}
+
+function toPrice(value: YamlValue | undefined): ModelPrice {
+    const entry = section(value);
+    return {
+        input: typeof entry.input === 'number' ? entry.input : 0,
+        output: typeof entry.output === 'number' ? entry.output : 0,
+    };
+}
+
+const config = parseYaml(billingYaml);
+const modelsConfig = section(config.models);
+
+export const DEFAULT_PRICE: ModelPrice = toPrice(config.default);
+export const PRICE_TABLE: Record<string, ModelPrice> = Object.fromEntries(
+    Object.entries(modelsConfig).map(([model, price]) => [model, toPrice(price)])
+);
+
+export function getModelPrice(model: string): ModelPrice {
+    return PRICE_TABLE[model] ?? DEFAULT_PRICE;
+}
+
+export function calculateCost(model: string, usage: TokenUsage): number {
+    const price = getModelPrice(model);
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Sum job usage, e.g. for a batch
+ */
+export function aggregateUsage(jobs: Job[]): BatchUsage {
+    return jobs.reduce<BatchUsage>((total, job) => {
+        if (!job.usage) return total;
+        const sum: BatchUsage = {
+            inputTokens: total.inputTokens + job.usage.inputTokens,
+            outputTokens: total.outputTokens + job.usage.outputTokens,
+            totalTokens: total.totalTokens + job.usage.totalTokens,
+            costUsd: total.costUsd + job.usage.costUsd,
+        };
+        if (total.estimated || job.usage.estimated) sum.estimated = true;
+        return sum;
+    }, { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 });
+}
+
+function toDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Spend per module per local day, newest day first
+ */
+export async function getSpendByModuleAndDay(days = 14): Promise<SpendRow[]> {
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    const jobs = (await jobOperations.getAll()).filter(j => j.usage && j.createdAt >= since);
+
+    const rows = new Map<string, SpendRow>();
+    for (const job of jobs) {
+        const day = toDay(job.completedAt ?? job.createdAt);
+        const key = `${day}|${job.module}`;
+        const row = rows.get(key) ?? { day, module: job.module, jobs: 0, totalTokens: 0, costUsd: 0 };
+        row.jobs++;
+        row.totalTokens += job.usage!.totalTokens;
+        row.costUsd += job.usage!.costUsd;
+        if (job.usage!.estimated) row.estimated = true;
+        rows.set(key, row);
+    }
+
+    return [...rows.values()].sort((a, b) => b.day.localeCompare(a.day) || a.module.localeCompare(b.module));
+}
+
+/**
+ * Project what a batch will cost from the average of past completed jobs for the module
+ */
+export async function estimateBatchCost(module: ModuleType, imageCount: number): Promise<BatchCostEstimate> {
+    const history = (await jobOperations.getByModule(module))
+        .filter(j => j.status === 'completed' && j.usage);
+
+    if (history.length === 0) {
+        return { perJobUsd: 0, totalUsd: 0, totalTokens: 0, sampleSize: 0 };
+    }
+
+    const total = aggregateUsage(history);
+    const perJobUsd = total.costUsd / history.length;
+    return {
+        perJobUsd,
+        totalUsd: perJobUsd * imageCount,
+        totalTokens: Math.round(total.totalTokens / history.length) * imageCount,
+        sampleSize: history.length,
+    };
+}
+
+export function formatCost(amount: number): string {
+    if (amount === 0) return `$0.00`;
+    return amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+export default {
+    getModelPrice,
+    calculateCost,
+    aggregateUsage,
+    getSpendByModuleAndDay,
+    estimateBatchCost,
+    formatCost,
+};
@@ -0,0 +1,312 @@
+/**
+ * Image Service
+ * Image assets are stored as Blobs, each with a fixed-size WebP thumbnail
+ * in its own table. Lists render thumbnails; the full image is only read
+ * from IndexedDB when something actually shows it. Uploads are addressed by
+ * their SHA-256, so the same image is only ever stored once, and are
+ * normalised in a worker (configs/preprocess.yaml) before they are stored.
+ */
+
+import preprocessYaml from '../../configs/preprocess.yaml?raw';
+import { assetOperations, thumbnailOperations, generateUUID } from '../db';
+import type { Asset, AssetType, ImagePreprocessing, Thumbnail, UUID } from '../types';
+import type { PreprocessOptions, PreprocessResult } from '../utils/imagePreprocess';
+import { parseYaml } from '../utils/yaml';
+import type { PreprocessRequest, PreprocessResponse } from '../workers/imagePreprocess.worker';
+
+const THUMBNAIL_SIZE = 256;
+const THUMBNAIL_QUALITY = 0.8;
+
+const preprocessConfig = parseYaml(preprocessYaml);
+
+const PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxEdge: typeof preprocessConfig.max_edge === 'number' ? preprocessConfig.max_edge : 2048,
+    mimeType: preprocessConfig.format === 'webp' ? 'image/webp' : 'image/jpeg',
+    quality: typeof preprocessConfig.quality === 'number' ? preprocessConfig.quality : 0.9,
+};
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/png': 'png',
+};
+
+// Object URLs handed out so far, so every component shares one per image
+const thumbnailUrls = new Map<UUID, string>();
+const imageUrls = new Map<UUID, string>();
+
+interface SaveImageOptions {
+    id?: UUID;
+    type?: AssetType;
+    jobId?: UUID;
+    batchId?: UUID;
+    metadata?: Record<string, unknown>;
+    /** Store the file as given, for images this app has already processed */
+    raw?: boolean;
+}
+
+// One worker for all uploads, started on first use
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, { resolve: (result: PreprocessResult) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+    if (!worker) {
+        worker = new Worker(new URL('../workers/imagePreprocess.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+            const response = event.data;
+            const request = pendingRequests.get(response.id);
+            pendingRequests.delete(response.id);
+            if ('error' in response) {
+                request?.reject(new Error(response.error));
+            } else {
+                request?.resolve(response.result);
+            }
+        };
+        worker.onerror = (event) => {
+            // A crashed worker fails everything it was given; the next upload starts a new one
+            pendingRequests.forEach(request => request.reject(new Error(event.message || 'Preprocess worker failed')));
+            pendingRequests.clear();
+            worker?.terminate();
+            worker = null;
+        };
+    }
+    return worker;
+}
+
+function runInWorker(file: Blob, options: PreprocessOptions): Promise<PreprocessResult> {
+    return new Promise((resolve, reject) => {
+        const request: PreprocessRequest = { id: nextRequestId++, file, options };
+        pendingRequests.set(request.id, { resolve, reject });
+        getWorker().postMessage(request);
+    });
+}
+
+function renameForType(filename: string, mimeType: string): string {
+    const extension = EXTENSIONS[mimeType];
+    if (!extension) return filename;
+    const base = filename.replace(/\.[^./\\]+$/, '');
+    return `${base || 'image'}.${extension}`;
+}
+
+/**
+ * The image bytes of an asset; older records may still hold a data URL
+ */
+export async function getImageBlob(asset: Asset): Promise<Blob> {
+    if (asset.data instanceof Blob) {
+        return asset.data;
+    }
+    const response = await fetch(asset.data.startsWith('data:') ? asset.data : `data:${asset.mimeType};base64,${asset.data}`);
+    return response.blob();
+}
+
+/**
+ * Read an image asset as raw base64 plus mime type
+ */
+export async function assetToBase64(asset: Asset): Promise<{ base64: string; mimeType: string }> {
+    if (typeof asset.data !== 'string') {
+        const blob = asset.data;
+        const dataUrl = await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = reject;
+            reader.readAsDataURL(blob);
+        });
+        return { base64: dataUrl.split(',')[1], mimeType: blob.type || asset.mimeType };
+    }
+
+    const match = asset.data.match(/^data:([^;]+);base64,(.*)$/);
+    if (match) {
+        return { base64: match[2], mimeType: match[1] };
+    }
+    return { base64: asset.data, mimeType: asset.mimeType };
+}
+
+/**
+ * Hex SHA-256 of a Blob's bytes
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Scale and centre-crop an image to a square WebP thumbnail
+ */
+export async function createThumbnail(assetId: UUID, image: Blob): Promise<Thumbnail> {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.max(THUMBNAIL_SIZE / bitmap.width, THUMBNAIL_SIZE / bitmap.height);
+    const width = bitmap.width * scale;
+    const height = bitmap.height * scale;
+    const x = (THUMBNAIL_SIZE - width) / 2;
+    const y = (THUMBNAIL_SIZE - height) / 2;
+
+    let data: Blob;
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+        canvas.getContext('2d')!.drawImage(bitmap, x, y, width, height);
+        data = await canvas.convertToBlob({ type: 'image/webp', quality: THUMBNAIL_QUALITY });
+    } else {
+        const canvas = document.createElement('canvas');
+        canvas.width = THUMBNAIL_SIZE;
+        canvas.height = THUMBNAIL_SIZE;
+        canvas.getContext('2d')!.drawImage(bitmap, x, y, width, height);
+        data = await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed')),
+            'image/webp',
+            THUMBNAIL_QUALITY
+        ));
+    }
+    bitmap.close();
+
+    return { assetId, data, width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, createdAt: Date.now() };
+}
+
+/**
+ * Apply EXIF orientation, cap the longest edge and re-encode without
+ * metadata, in the worker. If the browser cannot do that (no worker canvas,
+ * or a format it cannot decode such as HEIC outside Safari) the file is
+ * kept as-is and the reason recorded.
+ */
+export async function preprocessUpload(file: File): Promise<{ blob: Blob; filename: string; preprocessing: ImagePreprocessing }> {
+    const original = { filename: file.name, mimeType: file.type, size: file.size };
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+        return { blob: file, filename: file.name, preprocessing: { original, transforms: [], skipped: 'Worker canvas not supported' } };
+    }
+
+    try {
+        const result = await runInWorker(file, PREPROCESS_OPTIONS);
+        return {
+            blob: result.blob,
+            filename: renameForType(file.name, result.blob.type),
+            preprocessing: { original: { ...original, ...result.original }, transforms: result.transforms },
+        };
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`Preprocessing ${file.name} failed, storing it unchanged:`, error);
+        return { blob: file, filename: file.name, preprocessing: { original, transforms: [], skipped: reason } };
+    }
+}
+
+/**
+ * Store an uploaded image as a Blob asset together with its thumbnail,
+ * preprocessed unless `raw` is set. If an asset of the same type came from
+ * the exact same file, that asset is returned instead of a new copy,
+ * unless the caller asks for a specific id.
+ */
+export async function saveImageAsset(file: File, options: SaveImageOptions = {}): Promise<Asset> {
+    const type = options.type ?? 'input_image';
+    const sourceSha256 = await hashBlob(file);
+    if (!options.id) {
+        const existing = await assetOperations.getBySourceHash(sourceSha256, type);
+        if (existing) return existing;
+    }
+
+    const processed = options.raw ? null : await preprocessUpload(file);
+    const data = processed?.blob ?? file;
+    const sha256 = data === file ? sourceSha256 : await hashBlob(data);
+    const asset: Asset = {
+        id: options.id ?? generateUUID(),
+        type,
+        filename: processed?.filename ?? file.name,
+        mimeType: data.type || file.type,
+        size: data.size,
+        data,
+        metadata: processed ? { ...options.metadata, preprocessing: processed.preprocessing } : options.metadata ?? {},
+        createdAt: Date.now(),
+        jobId: options.jobId,
+        batchId: options.batchId,
+        sha256,
+        sourceSha256,
+    };
+
+    await assetOperations.create(asset);
+    try {
+        await thumbnailOperations.put(await createThumbnail(asset.id, data));
+    } catch (error) {
+        // The image is saved either way; the thumbnail is retried when first shown
+        console.warn(`Thumbnail for ${file.name} failed:`, error);
+    }
+    return asset;
+}
+
+/**
+ * Object URL of an image asset's thumbnail, generated on first use for
+ * images stored before thumbnails existed. Null if it is not an image.
+ */
+export async function getThumbnailUrl(assetId: UUID): Promise<string | null> {
+    const cached = thumbnailUrls.get(assetId);
+    if (cached) return cached;
+
+    let thumbnail = await thumbnailOperations.get(assetId);
+    if (!thumbnail) {
+        const asset = await assetOperations.get(assetId);
+        if (!asset || !asset.mimeType.startsWith('image/')) return null;
+        thumbnail = await createThumbnail(assetId, await getImageBlob(asset));
+        await thumbnailOperations.put(thumbnail);
+    }
+
+    const url = URL.createObjectURL(thumbnail.data);
+    thumbnailUrls.set(assetId, url);
+    return url;
+}
+
+/**
+ * Object URL of the full image, read from IndexedDB on first request
+ */
+export async function getImageUrl(assetId: UUID): Promise<string | null> {
+    const cached = imageUrls.get(assetId);
+    if (cached) return cached;
+
+    const asset = await assetOperations.get(assetId);
+    if (!asset || !asset.mimeType.startsWith('image/')) return null;
+
+    const url = URL.createObjectURL(await getImageBlob(asset));
+    imageUrls.set(assetId, url);
+    return url;
+}
+
+/**
+ * Base64 of a stored image for a model request, read from IndexedDB only
+ * when the request is about to be sent
+ */
+export async function loadImageBase64(assetId: UUID): Promise<{ base64: string; mimeType: string }> {
+    const asset = await assetOperations.get(assetId);
+    if (!asset) throw new Error(`Image ${assetId} not found`);
+    return assetToBase64(asset);
+}
+
+/**
+ * Revoke the object URLs of a deleted asset
+ */
+export function releaseImageUrls(assetId: UUID): void {
+    for (const urls of [thumbnailUrls, imageUrls]) {
+        const url = urls.get(assetId);
+        if (url) {
+            URL.revokeObjectURL(url);
+            urls.delete(assetId);
+        }
+    }
+}
+
+/**
+ * Delete an asset along with its thumbnail and object URLs
+ */
+export async function deleteImageAsset(assetId: UUID): Promise<void> {
+    releaseImageUrls(assetId);
+    await assetOperations.delete(assetId);
+}
+
+export default {
+    getImageBlob,
+    assetToBase64,
+    hashBlob,
+    createThumbnail,
+    preprocessUpload,
+    saveImageAsset,
+    getThumbnailUrl,
+    getImageUrl,
+    loadImageBase64,
+    releaseImageUrls,
+    deleteImageAsset,
+};
@@ -2,14 +2,20 @@
  * Job Service
  */
 
-import { jobOperations, generateUUID } from '../db';
-import type { Job, ModuleType, JobStatus, UUID } from '../types';
+import { jobOperations, assetOperations, generateUUID } from '../db';
+import type { AIErrorKind, Asset, AssetType, Job, ModuleType, JobStatus, UUID } from '../types';
+import { recordManifest, recordManifestRun, type JobRunContext } from './manifest.service';
 import { getActivePrompt } from './promptBrain.service';
 
+/**
+ * Persist a pending job and its manifest. Pass the system prompt in
+ * `context.promptText` when it is not exactly the active prompt version.
+ */
 export async function createJob(
     module: ModuleType,
     inputRefs: string[],
-    batchId?: UUID
+    batchId?: UUID,
+    context: JobRunContext = {}
 ): Promise<Job> {
     const activePrompt = await getActivePrompt(module);
 
@@ -17,16 +23,18 @@ export async function createJob(
         id: generateUUID(),
         module,
         status: 'pending',
-        promptVersion: activePrompt?.version || '1.0.0',
+        promptVersion: context.promptVersion || activePrompt?.version || '1.0.0',
         schemaVersion: activePrompt?.schemaVersion || `${module}_v1`,
         inputRefs,
         outputRefs: [],
         createdAt: Date.now(),
         retryCount: 0,
         batchId,
+        parentJobId: context.parentJobId,
     };
 
     await jobOperations.create(job);
+    await recordManifest(job, context.promptText ?? activePrompt?.content ?? '', context);
     return job;
 }
 
@@ -43,20 +51,104 @@ export async function getJobsByStatus(status: JobStatus): Promise<Job[]> {
     return await jobOperations.getByStatus(status);
 }
 
-export async function startJob(id: UUID): Promise<void> {
-    await jobOperations.updateStatus(id, 'running');
+/**
+ * The latest completed job of a module that ran on this input with the
+ * given prompt version, together with its stored output of the given type.
+ * Null if there is none or the output has since been deleted.
+ */
+export async function findPreviousOutput(
+    module: ModuleType,
+    inputRef: UUID,
+    promptVersion: string,
+    outputType: AssetType
+): Promise<{ job: Job; output: Asset } | null> {
+    const jobs = (await jobOperations.getByInput(inputRef))
+        .filter(job => job.module === module && job.status === 'completed' && job.promptVersion === promptVersion)
+        .sort((a, b) => (b.completedAt ?? b.createdAt) - (a.completedAt ?? a.createdAt));
+
+    for (const job of jobs) {
+        for (const ref of job.outputRefs) {
+            const output = await assetOperations.get(ref);
+            if (output?.type === outputType) {
+                return { job, output };
+            }
+        }
+    }
+    return null;
+}
+
+// Abort controllers for jobs executing in this tab, so any page can cancel them
+const inFlight = new Map<UUID, AbortController>();
+
+/**
+ * Register a job as executing and get the signal to pass to ai.service
+ */
+export function trackJob(id: UUID): AbortSignal {
+    const controller = new AbortController();
+    inFlight.set(id, controller);
+    return controller.signal;
+}
+
+export function isJobInFlight(id: UUID): boolean {
+    return inFlight.has(id);
+}
+
+export function hasJobsInFlight(): boolean {
+    return inFlight.size > 0;
 }
 
-export async function completeJob(id: UUID, outputRefs: string[]): Promise<void> {
+/**
+ * Abort a job's in-flight request (if it runs in this tab) and mark it cancelled
+ */
+export async function cancelJob(id: UUID): Promise<void> {
+    inFlight.get(id)?.abort();
+    inFlight.delete(id);
+    await jobOperations.updateStatus(id, 'cancelled');
+}
+
+/**
+ * Cancellation is final - a late result or error must not overwrite it
+ */
+async function isCancelledJob(id: UUID): Promise<boolean> {
+    const job = await jobOperations.get(id);
+    return job?.status === 'cancelled';
+}
+
+/**
+ * Mark a pending job as running. Returns false when it is no longer
+ * pending, e.g. because it was cancelled while waiting for a slot.
+ */
+export async function startJob(id: UUID): Promise<boolean> {
+    return await jobOperations.startIfPending(id);
+}
+
+export async function completeJob(
+    id: UUID,
+    outputRefs: string[],
+    details: Pick<Partial<Job>, 'validation' | 'extraction' | 'outputMode' | 'usage'> = {}
+): Promise<void> {
+    inFlight.delete(id);
+    if (await isCancelledJob(id)) return;
     await jobOperations.update(id, {
+        ...details,
         status: 'completed',
         outputRefs,
         completedAt: Date.now(),
     });
+    if (details.usage) {
+        await recordManifestRun(id, details.usage.model, details.outputMode);
+    }
 }
 
-export async function failJob(id: UUID, error: string): Promise<void> {
-    await jobOperations.updateStatus(id, 'failed', error);
+export async function failJob(id: UUID, error: string, errorKind: AIErrorKind = 'unknown'): Promise<void> {
+    inFlight.delete(id);
+    if (await isCancelledJob(id)) return;
+    await jobOperations.update(id, {
+        status: 'failed',
+        error,
+        errorKind,
+        completedAt: Date.now(),
+    });
 }
 
 export async function retryJob(id: UUID): Promise<number> {
@@ -85,9 +177,14 @@ export default {
     getJob,
     getAllJobs,
     getJobsByStatus,
+    findPreviousOutput,
     startJob,
     completeJob,
     failJob,
     retryJob,
+    trackJob,
+    isJobInFlight,
+    hasJobsInFlight,
+    cancelJob,
     getJobStats,
 };
@@ -0,0 +1,203 @@
+/**
+ * Job Runner Service
+ * Executes a persisted job against the AI service and stores its output,
+ * and re-runs finished jobs from their manifests
+ */
+
+import { assetOperations, jobOperations, promptOperations, generateUUID } from '../db';
+import type { Asset, AssetType, Job, ModuleType, PromptVersion, UUID } from '../types';
+import { useAppStore } from '../state';
+import {
+    analyzeIdentity,
+    visualSweep,
+    generateSpecFromImage,
+    generateSpecFromText,
+    getErrorKind,
+    isCancelled,
+    type GenerationResult
+} from './ai.service';
+import { assetToBase64 } from './image.service';
+import { createJob, startJob, completeJob, failJob, getJob, trackJob } from './job.service';
+import { getManifest } from './manifest.service';
+import { getActivePrompt } from './promptBrain.service';
+
+const OUTPUT_ASSET_TYPES: Record<ModuleType, AssetType> = {
+    grid_to_json: 'identity_json',
+    vision_to_json: 'vision_json',
+    realistic_to_json: 'realistic_json',
+};
+
+/**
+ * Resolve the prompt a job was created with, falling back to the active one
+ */
+async function resolvePrompt(module: ModuleType, version: string): Promise<PromptVersion> {
+    const prompt = await promptOperations.getByVersion(module, version) || await getActivePrompt(module);
+    if (!prompt) {
+        throw new Error(`No prompt configured for ${module}. Activate one in Prompt Brain first.`);
+    }
+    return prompt;
+}
+
+export interface ExecuteOverrides {
+    /** System prompt to send instead of the job's prompt version */
+    promptText?: string;
+    /** Only try this model instead of the configured chain */
+    model?: string;
+}
+
+/**
+ * Run a single job end to end. Errors are left to the caller, which decides
+ * whether the job is retried or marked as failed. Cancelling the job through
+ * job.service rejects with an error isCancelled() recognises.
+ */
+export async function executeJob(job: Job, overrides: ExecuteOverrides = {}): Promise<string[]> {
+    // Cancelled while queued: leave the cancellation in place instead of running it
+    if (!await startJob(job.id)) {
+        const error = new Error(`Job ${job.id} is no longer pending`);
+        error.name = 'AbortError';
+        throw error;
+    }
+    const signal = trackJob(job.id);
+
+    const prompt = overrides.promptText === undefined ? await resolvePrompt(job.module, job.promptVersion) : null;
+    const systemPrompt = overrides.promptText ?? prompt!.content;
+    const promptVersion = prompt?.version ?? job.promptVersion;
+    const options = { autoRepair: useAppStore.getState().autoRepairOutput, signal, model: overrides.model };
+
+    const input = await assetOperations.get(job.inputRefs[0]);
+    let result: GenerationResult<object>;
+    if (!input) {
+        // Realistic-to-JSON jobs started from a description keep the full text in their manifest
+        const text = (await getManifest(job.id))?.inputSnapshot.text;
+        if (job.module !== 'realistic_to_json' || typeof text !== 'string') {
+            throw new Error(`Input asset ${job.inputRefs[0]} not found`);
+        }
+        result = await generateSpecFromText(text, systemPrompt, options);
+    } else {
+        const { base64, mimeType } = await assetToBase64(input);
+        switch (job.module) {
+            case 'grid_to_json':
+                result = await analyzeIdentity(base64, mimeType, systemPrompt, options);
+                break;
+            case 'vision_to_json':
+                result = await visualSweep(base64, mimeType, systemPrompt, options);
+                break;
+            case 'realistic_to_json':
+                result = await generateSpecFromImage(base64, mimeType, systemPrompt, options);
+                break;
+        }
+    }
+
+    const data = JSON.stringify(result.data, null, 2);
+    const outputAsset: Asset = {
+        id: generateUUID(),
+        type: OUTPUT_ASSET_TYPES[job.module],
+        filename: `${job.module}_${input?.filename ?? 'text'}.json`,
+        mimeType: 'application/json',
+        size: data.length,
+        data,
+        metadata: input ? { sourceAssetId: input.id, promptVersion } : { promptVersion },
+        createdAt: Date.now(),
+        jobId: job.id,
+        batchId: job.batchId,
+    };
+    await assetOperations.create(outputAsset);
+    await completeJob(job.id, [outputAsset.id], {
+        validation: result.validation,
+        extraction: result.extraction,
+        outputMode: result.outputMode,
+        usage: result.usage,
+    });
+
+    return [outputAsset.id];
+}
+
+export interface RerunOverrides {
+    /** Run with this prompt version instead of the exact prompt text the job used */
+    promptVersion?: string;
+    /** Pin one model instead of walking the configured chain */
+    model?: string;
+}
+
+/**
+ * Run a job again on the same inputs as a new job linked through
+ * `parentJobId`. Without overrides it sends the prompt text recorded in the
+ * job's manifest. Resolves with the new job, completed or failed.
+ */
+export async function rerunJob(sourceJobId: UUID, overrides: RerunOverrides = {}): Promise<Job> {
+    const source = await getJob(sourceJobId);
+    if (!source) {
+        throw new Error(`Job ${sourceJobId} not found`);
+    }
+    const manifest = await getManifest(sourceJobId);
+
+    let promptVersion = source.promptVersion;
+    let promptText = manifest?.promptSnapshot;
+    if (overrides.promptVersion) {
+        const prompt = await promptOperations.getByVersion(source.module, overrides.promptVersion);
+        if (!prompt) {
+            throw new Error(`Prompt version ${overrides.promptVersion} not found for ${source.module}`);
+        }
+        promptVersion = prompt.version;
+        promptText = prompt.content;
+    }
+    // Jobs created before manifests existed only know their prompt version
+    if (!promptText) {
+        const prompt = await resolvePrompt(source.module, promptVersion);
+        promptVersion = prompt.version;
+        promptText = prompt.content;
+    }
+
+    const inputText = manifest?.inputSnapshot.text;
+    const job = await createJob(source.module, source.inputRefs, undefined, {
+        promptText,
+        inputText: typeof inputText === 'string' ? inputText : undefined,
+        promptVersion,
+        model: overrides.model,
+        parentJobId: source.id,
+    });
+
+    try {
+        await executeJob(job, { promptText, model: overrides.model });
+    } catch (error) {
+        // cancelJob already recorded a cancellation
+        if (!isCancelled(error)) {
+            await failJob(job.id, error instanceof Error ? error.message : String(error), getErrorKind(error));
+        }
+    }
+    return (await getJob(job.id)) ?? job;
+}
+
+/**
+ * Run a failed job again in place, with the prompt text its manifest
+ * recorded. Counts against the job's retries. Resolves with the job,
+ * completed or failed again.
+ */
+export async function retryJob(jobId: UUID): Promise<Job> {
+    const job = await getJob(jobId);
+    if (!job) {
+        throw new Error(`Job ${jobId} not found`);
+    }
+    if (job.status !== 'failed') {
+        throw new Error(`Only failed jobs can be retried (job is ${job.status})`);
+    }
+
+    const manifest = await getManifest(jobId);
+    await jobOperations.incrementRetry(jobId);
+    await jobOperations.update(jobId, { error: undefined, errorKind: undefined });
+    try {
+        await executeJob({ ...job, status: 'pending' }, { promptText: manifest?.promptSnapshot });
+    } catch (error) {
+        // cancelJob already recorded a cancellation
+        if (!isCancelled(error)) {
+            await failJob(jobId, error instanceof Error ? error.message : String(error), getErrorKind(error));
+        }
+    }
+    return (await getJob(jobId)) ?? job;
+}
+
+export default {
+    executeJob,
+    rerunJob,
+    retryJob,
+};
@@ -0,0 +1,108 @@
+/**
+ * Key Pool Service
+ * The validated BYOK keys, each with its own provider client. Calls stick
+ * to one key and fail over to the next when it runs out of quota; status
+ * and usage are written back to the settings store.
+ */
+
+import { useAppStore } from '../state';
+import type { UUID } from '../types';
+import type { VisionLLMProvider } from './providers';
+
+export interface PooledKey {
+    id: UUID;
+    name: string;
+    provider: VisionLLMProvider;
+}
+
+interface KeySlot extends PooledKey {
+    exhaustedUntil: number;
+}
+
+// How long a key sits out after a quota error that carried no retry hint
+const DEFAULT_EXHAUSTED_MS = 60 * 1000;
+
+let slots: KeySlot[] = [];
+let activeIndex = 0;
+
+export function setKeyPool(keys: PooledKey[]): void {
+    slots = keys.map(key => ({ ...key, exhaustedUntil: 0 }));
+    activeIndex = 0;
+}
+
+export function getKeyPoolSize(): number {
+    return slots.length;
+}
+
+/**
+ * The key to use for the next call: the current one while it has quota,
+ * otherwise the next available key, or the one that recovers soonest.
+ * Keys in `exclude` are never picked; null when that leaves none.
+ */
+export function getActiveKey(exclude: ReadonlySet<UUID> = new Set()): PooledKey | null {
+    const candidates = slots.filter(slot => !exclude.has(slot.id));
+    if (candidates.length === 0) return null;
+
+    const now = Date.now();
+    for (let offset = 0; offset < slots.length; offset++) {
+        const index = (activeIndex + offset) % slots.length;
+        if (!exclude.has(slots[index].id) && slots[index].exhaustedUntil <= now) {
+            if (index !== activeIndex) {
+                console.log(`🔑 Rotating to API key "${slots[index].name}"`);
+            }
+            activeIndex = index;
+            return slots[index];
+        }
+    }
+
+    return candidates.reduce((soonest, slot) => slot.exhaustedUntil < soonest.exhaustedUntil ? slot : soonest);
+}
+
+/**
+ * Take a key out of rotation after a quota error.
+ * Returns true if another key is available to fail over to.
+ */
+export function markKeyExhausted(id: UUID, retryAfterMs?: number): boolean {
+    const slot = slots.find(s => s.id === id);
+    if (!slot) return false;
+
+    const now = Date.now();
+    slot.exhaustedUntil = now + (retryAfterMs ?? DEFAULT_EXHAUSTED_MS);
+    console.warn(`🔑 API key "${slot.name}" is out of quota, skipping it for ${Math.round((slot.exhaustedUntil - now) / 1000)}s`);
+
+    const { apiKeys, updateApiKey } = useAppStore.getState();
+    const entry = apiKeys.find(k => k.id === id);
+    updateApiKey(id, {
+        status: 'exhausted',
+        usage: { quotaErrors: (entry?.usage.quotaErrors ?? 0) + 1, exhaustedUntil: slot.exhaustedUntil },
+    });
+
+    return slots.some(s => s.exhaustedUntil <= now);
+}
+
+/**
+ * Count a successful call against the key
+ */
+export function recordKeyUsage(id: UUID, totalTokens: number): void {
+    const { apiKeys, updateApiKey } = useAppStore.getState();
+    const entry = apiKeys.find(k => k.id === id);
+    if (!entry) return;
+
+    updateApiKey(id, {
+        status: 'valid',
+        usage: {
+            calls: entry.usage.calls + 1,
+            totalTokens: entry.usage.totalTokens + totalTokens,
+            lastUsedAt: Date.now(),
+            exhaustedUntil: undefined,
+        },
+    });
+}
+
+export default {
+    setKeyPool,
+    getKeyPoolSize,
+    getActiveKey,
+    markKeyExhausted,
+    recordKeyUsage,
+};
@@ -0,0 +1,120 @@
+/**
+ * Manifest Service
+ * Builds the reproducibility manifest stored next to every job: the exact
+ * prompt text, the output schema, hashes of the inputs, the provider and
+ * generation settings, and the app version that ran it.
+ */
+
+import { version as APP_VERSION } from '../../package.json';
+import { assetOperations, manifestOperations } from '../db';
+import { useAppStore } from '../state';
+import type { Job, JobManifest, ModuleType, OutputMode, UUID } from '../types';
+import { getImageBlob, hashBlob } from './image.service';
+import { OUTPUT_SCHEMAS, type OutputSchemaKind } from './schema.service';
+
+/** What a caller knows about a run beyond the job record itself */
+export interface JobRunContext {
+    /** System prompt exactly as sent, when it is not just the job's prompt version */
+    promptText?: string;
+    /** Text the job runs on, for modules that take a description */
+    inputText?: string;
+    /** Prompt version to record instead of the active one */
+    promptVersion?: string;
+    /** Single model the job is pinned to instead of the configured chain */
+    model?: string;
+    /** Job this one re-runs */
+    parentJobId?: UUID;
+}
+
+export interface ManifestInputAsset {
+    id: UUID;
+    filename: string;
+    mimeType: string;
+    size: number;
+    sha256: string;
+}
+
+const SCHEMA_KINDS: Record<ModuleType, OutputSchemaKind> = {
+    grid_to_json: 'identity',
+    vision_to_json: 'vision',
+    realistic_to_json: 'realistic',
+};
+
+/**
+ * Input refs that resolve to assets, with the hash of the bytes sent to the
+ * model. Refs that are not assets (text snippets) are left to `inputSnapshot.text`.
+ */
+async function snapshotInputs(inputRefs: string[]): Promise<ManifestInputAsset[]> {
+    const inputs: ManifestInputAsset[] = [];
+    for (const ref of inputRefs) {
+        const asset = await assetOperations.get(ref);
+        if (!asset) continue;
+        inputs.push({
+            id: asset.id,
+            filename: asset.filename,
+            mimeType: asset.mimeType,
+            size: asset.size,
+            sha256: await hashBlob(await getImageBlob(asset)),
+        });
+    }
+    return inputs;
+}
+
+/**
+ * Provider and generation settings in effect when the job was created.
+ * Whether structured output was used is only known once a model answers.
+ */
+function snapshotConfig(pinnedModel?: string): Record<string, unknown> {
+    const { providerSettings, autoRepairOutput } = useAppStore.getState();
+    return {
+        provider: providerSettings.provider,
+        ...(providerSettings.provider === 'openai_compatible' ? { baseUrl: providerSettings.baseUrl } : {}),
+        modelChain: pinnedModel ? [pinnedModel] : [...providerSettings.modelChain],
+        autoRepair: autoRepairOutput,
+    };
+}
+
+/**
+ * Write the manifest of a freshly created job
+ */
+export async function recordManifest(job: Job, promptText: string, context: JobRunContext = {}): Promise<JobManifest> {
+    const manifest: JobManifest = {
+        jobId: job.id,
+        module: job.module,
+        promptSnapshot: promptText,
+        schemaSnapshot: JSON.stringify(OUTPUT_SCHEMAS[SCHEMA_KINDS[job.module]], null, 2),
+        inputSnapshot: {
+            assets: await snapshotInputs(job.inputRefs),
+            ...(context.inputText !== undefined ? { text: context.inputText } : {}),
+        },
+        config: snapshotConfig(context.model),
+        promptVersion: job.promptVersion,
+        appVersion: APP_VERSION,
+        createdAt: job.createdAt,
+    };
+    await manifestOperations.put(manifest);
+    return manifest;
+}
+
+export async function getManifest(jobId: UUID): Promise<JobManifest | null> {
+    return await manifestOperations.get(jobId) || null;
+}
+
+/**
+ * Note the model that actually answered, which can be a fallback from the
+ * chain, and whether it answered in structured output mode
+ */
+export async function recordManifestRun(jobId: UUID, model: string, outputMode?: OutputMode): Promise<void> {
+    const manifest = await manifestOperations.get(jobId);
+    if (!manifest) return;
+    await manifestOperations.update(jobId, {
+        model,
+        config: outputMode ? { ...manifest.config, structuredOutput: outputMode === 'structured' } : manifest.config,
+    });
+}
+
+export default {
+    recordManifest,
+    getManifest,
+    recordManifestRun,
+};
@@ -0,0 +1,229 @@
+/**
+ * Model Health Service
+ * Per-model circuit breaker for the fallback chain: a rolling error rate,
+ * a cooldown once the circuit opens, and a single half-open probe before
+ * traffic returns to the model.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ModelHealthSnapshot {
+    model: string;
+    state: CircuitState;
+    /** Failures / calls in the rolling window, 0-1 */
+    errorRate: number;
+    calls: number;
+    consecutiveFailures: number;
+    /** When an open circuit allows its next probe */
+    retryAt?: number;
+    lastError?: string;
+    lastSuccessAt?: number;
+    lastFailureAt?: number;
+}
+
+interface Outcome {
+    at: number;
+    ok: boolean;
+}
+
+interface ModelHealth {
+    state: CircuitState;
+    window: Outcome[];
+    consecutiveFailures: number;
+    openedAt?: number;
+    probeInFlight: boolean;
+    lastError?: string;
+    lastSuccessAt?: number;
+    lastFailureAt?: number;
+}
+
+const BREAKER_CONFIG = {
+    windowSize: 20,
+    windowMs: 5 * 60 * 1000,
+    // Error rate only trips the breaker once there are enough samples to mean anything
+    minSamples: 4,
+    errorRateThreshold: 0.5,
+    consecutiveFailureThreshold: 3,
+    cooldownMs: 60 * 1000,
+};
+
+const health = new Map<string, ModelHealth>();
+
+function getHealth(model: string): ModelHealth {
+    let entry = health.get(model);
+    if (!entry) {
+        entry = { state: 'closed', window: [], consecutiveFailures: 0, probeInFlight: false };
+        health.set(model, entry);
+    }
+    return entry;
+}
+
+function pruneWindow(entry: ModelHealth, now: number): void {
+    entry.window = entry.window
+        .filter(o => now - o.at <= BREAKER_CONFIG.windowMs)
+        .slice(-BREAKER_CONFIG.windowSize);
+}
+
+function errorRate(entry: ModelHealth): number {
+    if (entry.window.length === 0) return 0;
+    return entry.window.filter(o => !o.ok).length / entry.window.length;
+}
+
+function open(entry: ModelHealth, now: number): void {
+    entry.state = 'open';
+    entry.openedAt = now;
+    entry.probeInFlight = false;
+}
+
+/**
+ * Whether a call could be routed to the model right now (no side effects)
+ */
+export function canRoute(model: string, now = Date.now()): boolean {
+    const entry = getHealth(model);
+    switch (entry.state) {
+        case 'closed':
+            return true;
+        case 'open':
+            return now - (entry.openedAt ?? 0) >= BREAKER_CONFIG.cooldownMs;
+        case 'half_open':
+            return !entry.probeInFlight;
+    }
+}
+
+export function getCircuitState(model: string): CircuitState {
+    return getHealth(model).state;
+}
+
+/**
+ * Claim the model for one call. An open circuit past its cooldown moves to
+ * half-open and this call becomes the probe; returns false if not allowed.
+ */
+export function beginAttempt(model: string, now = Date.now()): boolean {
+    if (!canRoute(model, now)) return false;
+
+    const entry = getHealth(model);
+    if (entry.state !== 'closed') {
+        entry.state = 'half_open';
+        entry.probeInFlight = true;
+        console.log(`🩺 Probing ${model} after cooldown`);
+    }
+    return true;
+}
+
+export function recordSuccess(model: string, now = Date.now()): void {
+    const entry = getHealth(model);
+    if (entry.state === 'half_open') {
+        console.log(`✅ ${model} recovered, closing circuit`);
+        entry.window = [];
+    }
+    entry.state = 'closed';
+    entry.probeInFlight = false;
+    entry.consecutiveFailures = 0;
+    entry.lastSuccessAt = now;
+    entry.window.push({ at: now, ok: true });
+    pruneWindow(entry, now);
+}
+
+/**
+ * Record a failure that reflects on the model (overload, rate limit, network)
+ */
+export function recordFailure(model: string, error: string, now = Date.now()): void {
+    const entry = getHealth(model);
+    entry.consecutiveFailures++;
+    entry.lastError = error;
+    entry.lastFailureAt = now;
+    entry.window.push({ at: now, ok: false });
+    pruneWindow(entry, now);
+
+    if (entry.state === 'half_open') {
+        console.warn(`🔌 ${model} probe failed, reopening circuit`);
+        open(entry, now);
+        return;
+    }
+
+    const tripped = entry.consecutiveFailures >= BREAKER_CONFIG.consecutiveFailureThreshold
+        || (entry.window.length >= BREAKER_CONFIG.minSamples && errorRate(entry) >= BREAKER_CONFIG.errorRateThreshold);
+    if (entry.state === 'closed' && tripped) {
+        console.warn(`🔌 Opening circuit for ${model} (${Math.round(errorRate(entry) * 100)}% errors)`);
+        open(entry, now);
+    }
+}
+
+/**
+ * Open the circuit straight away, e.g. for a model that failed key validation
+ */
+export function tripCircuit(model: string, error: string, now = Date.now()): void {
+    const entry = getHealth(model);
+    entry.consecutiveFailures++;
+    entry.lastError = error;
+    entry.lastFailureAt = now;
+    entry.window.push({ at: now, ok: false });
+    pruneWindow(entry, now);
+    open(entry, now);
+}
+
+/**
+ * Release a claimed attempt that says nothing about model health,
+ * e.g. a cancelled request or an invalid input
+ */
+export function releaseAttempt(model: string): void {
+    getHealth(model).probeInFlight = false;
+}
+
+/**
+ * Models worth trying, in chain (preference) order
+ */
+export function getRoutableModels(chain: string[], now = Date.now()): string[] {
+    return chain.filter(model => canRoute(model, now));
+}
+
+/**
+ * Milliseconds until the first open circuit in the chain allows a probe
+ */
+export function getNextRetryDelay(chain: string[], now = Date.now()): number {
+    const waits = chain
+        .map(model => getHealth(model))
+        .filter(entry => entry.state === 'open')
+        .map(entry => (entry.openedAt ?? 0) + BREAKER_CONFIG.cooldownMs - now);
+    return waits.length > 0 ? Math.max(0, Math.min(...waits)) : 0;
+}
+
+export function getHealthSnapshot(chain: string[]): ModelHealthSnapshot[] {
+    const now = Date.now();
+    return chain.map(model => {
+        const entry = getHealth(model);
+        pruneWindow(entry, now);
+        return {
+            model,
+            state: entry.state,
+            errorRate: errorRate(entry),
+            calls: entry.window.length,
+            consecutiveFailures: entry.consecutiveFailures,
+            retryAt: entry.state === 'open' ? (entry.openedAt ?? 0) + BREAKER_CONFIG.cooldownMs : undefined,
+            lastError: entry.lastError,
+            lastSuccessAt: entry.lastSuccessAt,
+            lastFailureAt: entry.lastFailureAt,
+        };
+    });
+}
+
+/**
+ * Forget all health state, e.g. after switching provider or key
+ */
+export function resetModelHealth(): void {
+    health.clear();
+}
+
+export default {
+    canRoute,
+    getCircuitState,
+    beginAttempt,
+    recordSuccess,
+    recordFailure,
+    tripCircuit,
+    releaseAttempt,
+    getRoutableModels,
+    getNextRetryDelay,
+    getHealthSnapshot,
+    resetModelHealth,
+};
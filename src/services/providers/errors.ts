@@ -0,0 +1,161 @@
+/**
+ * Provider Errors
+ * Typed failures every provider throws, so retry, fallback and the UI can
+ * branch on the kind of failure instead of matching message text.
+ */
+
+import type { AIErrorKind, ProviderType } from '../../types';
+
+export interface AIErrorMetadata {
+    provider?: ProviderType;
+    model?: string;
+    /** HTTP status of the failed call */
+    status?: number;
+    statusText?: string;
+    /** Server hint for when to try again (Retry-After, Gemini RetryInfo) */
+    retryAfterMs?: number;
+    /** Finish or block reason reported with a refused response, e.g. SAFETY */
+    reason?: string;
+    /** Error details or the response object exactly as the API returned them */
+    details?: unknown;
+    /** The error the provider SDK threw, if this wraps one */
+    cause?: unknown;
+}
+
+/**
+ * Base class; also used as-is for failures that fit no other kind
+ */
+export class AIError extends Error {
+    name = 'AIError';
+    readonly kind: AIErrorKind = 'unknown';
+    readonly retryable: boolean = false;
+
+    constructor(message: string, readonly metadata: AIErrorMetadata = {}) {
+        super(message);
+    }
+}
+
+/** Key missing, invalid or without access to the model */
+export class AuthError extends AIError {
+    name = 'AuthError';
+    readonly kind = 'auth';
+}
+
+/** Rate limit or quota hit; worth retrying once the window passes */
+export class QuotaError extends AIError {
+    name = 'QuotaError';
+    readonly kind = 'quota';
+    readonly retryable = true;
+}
+
+/** The model refused the prompt or the image */
+export class SafetyBlockedError extends AIError {
+    name = 'SafetyBlockedError';
+    readonly kind = 'safety';
+}
+
+/** The request itself was rejected: oversized image, bad parameters, unknown model */
+export class InvalidInputError extends AIError {
+    name = 'InvalidInputError';
+    readonly kind = 'invalid_input';
+}
+
+/** The model answered but no JSON could be recovered from the reply */
+export class ParseError extends AIError {
+    name = 'ParseError';
+    readonly kind = 'parse';
+}
+
+/** Overload, server error, timeout or network drop */
+export class TransientError extends AIError {
+    name = 'TransientError';
+    readonly kind = 'transient';
+    readonly retryable = true;
+}
+
+export type AIErrorConstructor = new (message: string, metadata?: AIErrorMetadata) => AIError;
+
+/**
+ * Read a retry hint from an error message: a Retry-After header surfaced by
+ * a provider, Gemini's retryDelay, or "try again in 20s" style text
+ */
+export function parseRetryAfterMs(message: string): number | null {
+    const patterns = [
+        /retry[- ]after:?\s*(\d+(?:\.\d+)?)\s*(ms|s)?/i,
+        /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)(s)"/i,
+        /(?:retry|try again) in\s*(\d+(?:\.\d+)?)\s*(ms|s)/i,
+    ];
+    for (const pattern of patterns) {
+        const match = message.match(pattern);
+        if (match) {
+            const value = parseFloat(match[1]);
+            return Math.ceil(match[2] === 'ms' ? value : value * 1000);
+        }
+    }
+    return null;
+}
+
+/**
+ * Pick the error class for an HTTP failure
+ */
+export function errorClassForStatus(status: number, message: string): AIErrorConstructor {
+    const text = message.toLowerCase();
+    if (status === 401 || status === 403) return AuthError;
+    // Gemini answers a bad key with 400 INVALID_ARGUMENT
+    if (status === 400 && (text.includes('api key') || text.includes('api_key_invalid'))) return AuthError;
+    if (status === 429) return QuotaError;
+    if (status === 408 || status >= 500) return TransientError;
+    if (status >= 400) return InvalidInputError;
+    return AIError;
+}
+
+/**
+ * Wrap anything a provider or SDK threw in the matching AIError
+ */
+export function classifyError(error: unknown, metadata: AIErrorMetadata = {}): AIError {
+    if (error instanceof AIError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const source = (error && typeof error === 'object' ? error : {}) as {
+        status?: number;
+        statusText?: string;
+        errorDetails?: unknown;
+        response?: unknown;
+    };
+    const statusMatch = message.match(/\[(\d{3})[ \]]/);
+    const status = typeof source.status === 'number' ? source.status : statusMatch ? Number(statusMatch[1]) : undefined;
+    const meta: AIErrorMetadata = {
+        ...metadata,
+        status,
+        statusText: source.statusText ?? metadata.statusText,
+        details: source.errorDetails ?? source.response ?? metadata.details,
+        cause: error,
+    };
+    const retryAfterMs = parseRetryAfterMs(message + JSON.stringify(source.errorDetails ?? ''));
+    if (retryAfterMs !== null) meta.retryAfterMs = retryAfterMs;
+
+    const blocked = message.match(/blocked due to (\w+)/i);
+    if (blocked) {
+        return new SafetyBlockedError(message, { ...meta, reason: blocked[1] });
+    }
+    if (status !== undefined) {
+        const ErrorClass = errorClassForStatus(status, message);
+        return new ErrorClass(message, meta);
+    }
+
+    const text = message.toLowerCase();
+    if (text.includes('quota') || text.includes('rate limit') || text.includes('resource exhausted')) {
+        return new QuotaError(message, meta);
+    }
+    if (
+        error instanceof TypeError ||
+        text.includes('network') ||
+        text.includes('failed to fetch') ||
+        text.includes('timeout') ||
+        text.includes('overloaded') ||
+        text.includes('temporarily unavailable')
+    ) {
+        return new TransientError(message, meta);
+    }
+    return new AIError(message, meta);
+}
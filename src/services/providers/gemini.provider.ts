@@ -0,0 +1,171 @@
+/**
+ * Gemini Provider - Google Generative AI SDK
+ */
+
+import {
+    GoogleGenerativeAI,
+    SchemaType,
+    type EnhancedGenerateContentResponse,
+    type GenerateContentRequest,
+    type GenerationConfig,
+    type GenerativeModel,
+    type Part,
+    type ResponseSchema,
+} from '@google/generative-ai';
+import type { JsonSchema, JsonSchemaType } from '../../utils/schemaValidator';
+import { classifyError } from './errors';
+import type { ProviderRequestOptions, ProviderResponse, VisionLLMProvider } from './types';
+import { estimateUsage } from './usage';
+
+// responseSchema is accepted from Gemini 1.5 onwards
+const STRUCTURED_OUTPUT_MODEL = /^gemini-(1\.5|[2-9](\.\d+)?)-/;
+
+const SCHEMA_TYPES: Record<Exclude<JsonSchemaType, 'null'>, SchemaType> = {
+    object: SchemaType.OBJECT,
+    array: SchemaType.ARRAY,
+    string: SchemaType.STRING,
+    number: SchemaType.NUMBER,
+    integer: SchemaType.INTEGER,
+    boolean: SchemaType.BOOLEAN,
+};
+
+/**
+ * Convert a module JSON Schema into Gemini's OpenAPI-subset schema.
+ * Nullable unions become `nullable`, and only string enums are kept.
+ * Gemini rejects objects without properties, so free-form objects (and
+ * arrays of them) are left out along with their `required` entries;
+ * returns null when the node itself is free-form.
+ */
+export function toResponseSchema(schema: JsonSchema): ResponseSchema | null {
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const concrete = types.filter((t): t is Exclude<JsonSchemaType, 'null'> => t !== 'null');
+    const result: ResponseSchema = {
+        type: SCHEMA_TYPES[concrete[0] ?? 'string'],
+    };
+
+    if (schema.description) result.description = schema.description;
+    if (types.includes('null')) result.nullable = true;
+    if (schema.enum && result.type === SchemaType.STRING) {
+        result.enum = schema.enum.filter((v): v is string => typeof v === 'string');
+        result.format = 'enum';
+    }
+    if (result.type === SchemaType.OBJECT) {
+        const properties = Object.entries(schema.properties ?? {})
+            .map(([key, child]) => [key, toResponseSchema(child)] as const)
+            .filter((entry): entry is readonly [string, ResponseSchema] => entry[1] !== null);
+        if (properties.length === 0) return null;
+        result.properties = Object.fromEntries(properties);
+        const required = schema.required?.filter(key => key in result.properties!);
+        if (required?.length) result.required = required;
+    }
+    if (result.type === SchemaType.ARRAY && schema.items) {
+        const items = toResponseSchema(schema.items);
+        if (!items) return null;
+        result.items = items;
+    }
+
+    return result;
+}
+
+export class GeminiProvider implements VisionLLMProvider {
+    readonly type = 'gemini' as const;
+    private client: GoogleGenerativeAI;
+    private models = new Map<string, GenerativeModel>();
+
+    constructor(apiKey: string) {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    private getModel(name: string): GenerativeModel {
+        let model = this.models.get(name);
+        if (!model) {
+            model = this.client.getGenerativeModel({ model: name });
+            this.models.set(name, model);
+        }
+        return model;
+    }
+
+    private async generate(model: string, parts: Array<string | Part>, options: ProviderRequestOptions): Promise<ProviderResponse> {
+        try {
+            return await this.request(model, parts, options);
+        } catch (error) {
+            // The SDK throws fetch errors with status and details, and response errors for blocks
+            throw classifyError(error, { provider: this.type, model });
+        }
+    }
+
+    private async request(model: string, parts: Array<string | Part>, options: ProviderRequestOptions): Promise<ProviderResponse> {
+        const generationConfig: GenerationConfig | undefined = options.responseSchema
+            ? { responseMimeType: 'application/json', responseSchema: toResponseSchema(options.responseSchema) ?? undefined }
+            : undefined;
+
+        const request: GenerateContentRequest = {
+            contents: [{
+                role: 'user',
+                parts: parts.map(part => typeof part === 'string' ? { text: part } : part),
+            }],
+            generationConfig,
+        };
+
+        let response: EnhancedGenerateContentResponse;
+        if (options.onText) {
+            const result = await this.getModel(model).generateContentStream(request, { signal: options.signal });
+            for await (const chunk of result.stream) {
+                const delta = chunk.text();
+                if (delta) options.onText(delta);
+            }
+            response = await result.response;
+        } else {
+            const result = await this.getModel(model).generateContent(request, { signal: options.signal });
+            response = result.response;
+        }
+
+        const text = response.text();
+        const usage = response.usageMetadata;
+        if (!usage) {
+            const texts = parts.filter((part): part is string => typeof part === 'string');
+            return { text, usage: estimateUsage(texts.join('\n'), text, parts.length - texts.length) };
+        }
+        return {
+            text,
+            usage: {
+                inputTokens: usage.promptTokenCount ?? 0,
+                outputTokens: usage.candidatesTokenCount ?? 0,
+                totalTokens: usage.totalTokenCount ?? 0,
+            },
+        };
+    }
+
+    async generateWithImage(
+        model: string,
+        systemPrompt: string,
+        imageBase64: string,
+        mimeType: string,
+        options: ProviderRequestOptions = {}
+    ): Promise<ProviderResponse> {
+        return this.generate(model, [
+            systemPrompt,
+            {
+                inlineData: {
+                    data: imageBase64,
+                    mimeType: mimeType,
+                },
+            },
+        ], options);
+    }
+
+    async generateWithText(model: string, systemPrompt: string, userInput: string, options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+        return this.generate(model, [systemPrompt, userInput], options);
+    }
+
+    supportsStructuredOutput(model: string): boolean {
+        return STRUCTURED_OUTPUT_MODEL.test(model);
+    }
+
+    async validateKey(model: string): Promise<boolean> {
+        const { text } = await this.generate(model, ['Say "OK" if you can hear me.'], {});
+        return text.toLowerCase().includes('ok');
+    }
+}
+
+export default GeminiProvider;
@@ -0,0 +1,70 @@
+/**
+ * Model Providers
+ */
+
+import type { ProviderSettings, ProviderType } from '../../types';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openai.provider';
+import { MockProvider } from './mock.provider';
+import type { ProviderConfig, VisionLLMProvider } from './types';
+
+export type { ProviderConfig, ProviderRequestOptions, ProviderResponse, VisionLLMProvider } from './types';
+export { GeminiProvider } from './gemini.provider';
+export { OpenAICompatibleProvider } from './openai.provider';
+export { MockProvider, setMockScript, type MockBehavior } from './mock.provider';
+export { estimateTokens, estimateUsage, IMAGE_TOKENS } from './usage';
+export {
+    AIError,
+    AuthError,
+    QuotaError,
+    SafetyBlockedError,
+    InvalidInputError,
+    ParseError,
+    TransientError,
+    classifyError,
+    type AIErrorConstructor,
+    type AIErrorMetadata,
+} from './errors';
+
+// Default model fallback chains, used until the user configures their own
+export const DEFAULT_MODEL_CHAINS: Record<ProviderType, string[]> = {
+    gemini: [
+        'gemini-2.5-pro',           // Primary: Best quality
+        'gemini-2.5-flash',         // Fallback 1: Fast but good
+        'gemini-2.0-flash-exp',     // Fallback 2: Experimental
+        'gemini-1.5-pro',           // Fallback 3: Stable
+    ],
+    openai_compatible: [
+        'gpt-4o',
+        'gpt-4o-mini',
+    ],
+    // Flags in the name drive failure simulation, e.g. mock-503 or mock-slow-malformed
+    mock: [
+        'mock-primary',
+        'mock-fallback',
+    ],
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    baseUrl: 'https://api.openai.com/v1',
+    modelChain: DEFAULT_MODEL_CHAINS.gemini,
+};
+
+export const PROVIDER_LABELS: Record<ProviderType, string> = {
+    gemini: 'Google Gemini',
+    openai_compatible: 'OpenAI-compatible',
+    mock: 'Mock (offline fixtures)',
+};
+
+export function createProvider(config: ProviderConfig): VisionLLMProvider {
+    switch (config.type) {
+        case 'gemini':
+            return new GeminiProvider(config.apiKey);
+        case 'openai_compatible':
+            if (!config.baseUrl) throw new Error('OpenAI-compatible provider requires a base URL');
+            return new OpenAICompatibleProvider(config.apiKey, config.baseUrl);
+        case 'mock':
+            return new MockProvider();
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ * Mock Provider - deterministic, offline
+ * Returns canned module payloads keyed by a hash of the input, and can
+ * simulate the failures the retry and fallback paths have to handle.
+ *
+ * Behaviour comes from two places:
+ * - Model name flags, so a chain like ["mock-503", "mock-ok"] exercises fallback
+ *   from Settings: 429, 503, 401, slow, malformed, textonly (no JSON mode)
+ * - A scripted queue (setMockScript) consumed one entry per call, for exact sequences
+ */
+
+import { AuthError, QuotaError, TransientError } from './errors';
+import type { ProviderRequestOptions, ProviderResponse, VisionLLMProvider } from './types';
+import { estimateUsage } from './usage';
+import identityFixtures from './fixtures/identity.json';
+import visionFixtures from './fixtures/vision.json';
+import realisticFixtures from './fixtures/realistic.json';
+import panelFixtures from './fixtures/panel.json';
+
+export type MockBehavior = 'ok' | '429' | '503' | '401' | 'slow' | 'malformed' | 'textonly';
+
+type FixtureKind = 'identity' | 'vision' | 'realistic' | 'panel';
+
+const FIXTURES: Record<FixtureKind, unknown[]> = {
+    identity: identityFixtures,
+    vision: visionFixtures,
+    realistic: realisticFixtures,
+    panel: panelFixtures,
+};
+
+const SLOW_RESPONSE_MS = 4000;
+// Streamed replies arrive in chunks of this many characters
+const STREAM_CHUNK_CHARS = 48;
+
+let script: MockBehavior[] = [];
+
+/**
+ * Queue behaviours for the next calls, e.g. ['429', '429', 'ok']
+ */
+export function setMockScript(behaviors: MockBehavior[]): void {
+    script = [...behaviors];
+}
+
+/**
+ * FNV-1a 32-bit hash - stable across runs, no async crypto needed
+ */
+export function hashInput(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Work out which module is calling from the prompt it sent
+ */
+function detectFixtureKind(systemPrompt: string, userInput: string): FixtureKind {
+    const prompt = systemPrompt.toLowerCase();
+    if (userInput.toLowerCase().includes('panel specification')) return 'panel';
+    if (prompt.includes('gridclone') || prompt.includes('identity_blueprint')) return 'identity';
+    if (prompt.includes('visionstruct') || prompt.includes('global_context')) return 'vision';
+    return 'realistic';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('The user aborted a request.'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('The user aborted a request.'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export class MockProvider implements VisionLLMProvider {
+    readonly type = 'mock' as const;
+
+    constructor(private latencyMs = 300) { }
+
+    private getBehaviors(model: string): MockBehavior[] {
+        const fromModel = model.split('-').slice(1) as MockBehavior[];
+        const scripted = script.shift();
+        return scripted ? [...fromModel, scripted] : fromModel;
+    }
+
+    private async respond(
+        model: string,
+        systemPrompt: string,
+        userInput: string,
+        imageCount: number,
+        options: ProviderRequestOptions
+    ): Promise<ProviderResponse> {
+        const behaviors = this.getBehaviors(model);
+
+        await sleep(behaviors.includes('slow') ? SLOW_RESPONSE_MS : this.latencyMs, options.signal);
+
+        const metadata = { provider: this.type, model };
+        if (behaviors.includes('401')) {
+            throw new AuthError('[401 Unauthorized] API key not valid. Please pass a valid API key.', { ...metadata, status: 401 });
+        }
+        if (behaviors.includes('429')) {
+            throw new QuotaError('[429 Too Many Requests] Resource has been exhausted (e.g. check quota).', { ...metadata, status: 429, retryAfterMs: 2000 });
+        }
+        if (behaviors.includes('503')) {
+            throw new TransientError('[503 Service Unavailable] The model is overloaded. Please try again later.', { ...metadata, status: 503 });
+        }
+
+        const kind = detectFixtureKind(systemPrompt, userInput);
+        const fixtures = FIXTURES[kind];
+        const payload = fixtures[hashInput(systemPrompt + userInput) % fixtures.length];
+        const json = JSON.stringify(payload, null, 2);
+
+        let text: string;
+        if (behaviors.includes('malformed')) {
+            // Cut the payload mid-object, like a response hitting the output token limit
+            text = `Here is the analysis:\n\`\`\`json\n${json.slice(0, Math.floor(json.length / 2))}`;
+        } else {
+            // JSON mode replies with the bare document, text mode wraps it like a chat answer
+            text = options.responseSchema ? json : `\`\`\`json\n${json}\n\`\`\``;
+        }
+
+        if (options.onText) {
+            const delay = Math.max(10, Math.round(this.latencyMs / 10));
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+                options.onText(text.slice(i, i + STREAM_CHUNK_CHARS));
+                await sleep(delay, options.signal);
+            }
+        }
+
+        // Estimated like a server that reports no usage, so mock runs exercise cost accounting
+        const prompt = imageCount > 0 ? systemPrompt : systemPrompt + userInput;
+        return { text, usage: estimateUsage(prompt, text, imageCount) };
+    }
+
+    async generateWithImage(
+        model: string,
+        systemPrompt: string,
+        imageBase64: string,
+        mimeType: string,
+        options: ProviderRequestOptions = {}
+    ): Promise<ProviderResponse> {
+        return this.respond(model, systemPrompt, `${mimeType}:${imageBase64}`, 1, options);
+    }
+
+    async generateWithText(model: string, systemPrompt: string, userInput: string, options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+        return this.respond(model, systemPrompt, userInput, 0, options);
+    }
+
+    supportsStructuredOutput(model: string): boolean {
+        return !model.split('-').includes('textonly');
+    }
+
+    async validateKey(model: string): Promise<boolean> {
+        return !model.split('-').includes('401');
+    }
+}
+
+export default MockProvider;
@@ -0,0 +1,200 @@
+/**
+ * OpenAI-Compatible Provider
+ * Talks to any server exposing POST /chat/completions (OpenAI, vLLM, Ollama, LM Studio...)
+ */
+
+import type { TokenUsage } from '../../types';
+import { classifyError, errorClassForStatus, parseRetryAfterMs, SafetyBlockedError } from './errors';
+import type { ProviderRequestOptions, ProviderResponse, VisionLLMProvider } from './types';
+import { estimateUsage } from './usage';
+
+type ChatContent =
+    | string
+    | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+
+interface ChatMessage {
+    role: 'system' | 'user';
+    content: ChatContent;
+}
+
+/**
+ * Usage estimated from the messages, for servers that report none
+ */
+function estimateChatUsage(messages: ChatMessage[], output: string): TokenUsage {
+    const parts = messages.flatMap(message => typeof message.content === 'string'
+        ? [{ type: 'text' as const, text: message.content }]
+        : message.content);
+    const texts = parts.flatMap(part => part.type === 'text' ? [part.text] : []);
+    return estimateUsage(texts.join('\n'), output, parts.length - texts.length);
+}
+
+function toUsage(usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }): TokenUsage {
+    return {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+        totalTokens: usage.total_tokens ?? 0,
+    };
+}
+
+export class OpenAICompatibleProvider implements VisionLLMProvider {
+    readonly type = 'openai_compatible' as const;
+
+    constructor(private apiKey: string, private baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    private async chat(model: string, messages: ChatMessage[], options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+        try {
+            return await this.request(model, messages, options);
+        } catch (error) {
+            // Network drops surface as a bare TypeError from fetch
+            throw classifyError(error, { provider: this.type, model });
+        }
+    }
+
+    private async request(model: string, messages: ChatMessage[], options: ProviderRequestOptions): Promise<ProviderResponse> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        const stream = Boolean(options.onText);
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(stream
+                ? { model, messages, stream, stream_options: { include_usage: true } }
+                : { model, messages }),
+            signal: options.signal,
+        });
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            const message = `[${response.status} ${response.statusText}] ${body}`.trim();
+            // Retry-After in seconds lets the rate limiter hold off for as long as the server asks
+            const retryAfterSeconds = Number(response.headers.get('retry-after'));
+            const retryAfterMs = retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : parseRetryAfterMs(body);
+            const ErrorClass = errorClassForStatus(response.status, message);
+            throw new ErrorClass(message, {
+                provider: this.type,
+                model,
+                status: response.status,
+                statusText: response.statusText,
+                retryAfterMs: retryAfterMs ?? undefined,
+                details: body,
+            });
+        }
+
+        if (stream && response.body && options.onText) {
+            return this.readStream(model, messages, response.body, options.onText);
+        }
+
+        const data = await response.json();
+        this.checkFinishReason(model, data.choices?.[0]?.finish_reason, data);
+        const text: string = data.choices?.[0]?.message?.content ?? '';
+        return { text, usage: data.usage ? toUsage(data.usage) : estimateChatUsage(messages, text) };
+    }
+
+    /**
+     * Moderation stops a reply with finish_reason "content_filter" instead of an HTTP error
+     */
+    private checkFinishReason(model: string, finishReason: string | undefined, details: unknown): void {
+        if (finishReason === 'content_filter') {
+            throw new SafetyBlockedError('Response was blocked due to content_filter', {
+                provider: this.type,
+                model,
+                reason: finishReason,
+                details,
+            });
+        }
+    }
+
+    /**
+     * Read a server-sent events body, forwarding content deltas as they arrive
+     */
+    private async readStream(
+        model: string,
+        messages: ChatMessage[],
+        body: ReadableStream<Uint8Array>,
+        onText: (delta: string) => void
+    ): Promise<ProviderResponse> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        let usage: TokenUsage | null = null;
+
+        const handleLine = (line: string) => {
+            const payload = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || payload === '' || payload === '[DONE]') return;
+
+            let chunk;
+            try {
+                chunk = JSON.parse(payload);
+            } catch {
+                // Some proxies send non-JSON data lines; they carry no content
+                return;
+            }
+            this.checkFinishReason(model, chunk.choices?.[0]?.finish_reason, chunk);
+            const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onText(delta);
+            }
+            if (chunk.usage) {
+                usage = toUsage(chunk.usage);
+            }
+        };
+
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            lines.forEach(handleLine);
+        }
+        // The last event may arrive without a trailing newline
+        buffer += decoder.decode();
+        buffer.split('\n').forEach(handleLine);
+
+        return { text, usage: usage ?? estimateChatUsage(messages, text) };
+    }
+
+    async generateWithImage(
+        model: string,
+        systemPrompt: string,
+        imageBase64: string,
+        mimeType: string,
+        options: ProviderRequestOptions = {}
+    ): Promise<ProviderResponse> {
+        return this.chat(model, [
+            { role: 'system', content: systemPrompt },
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'Analyze this image.' },
+                    { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+                ],
+            },
+        ], options);
+    }
+
+    async generateWithText(model: string, systemPrompt: string, userInput: string, options: ProviderRequestOptions = {}): Promise<ProviderResponse> {
+        return this.chat(model, [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userInput },
+        ], options);
+    }
+
+    supportsStructuredOutput(): boolean {
+        // json_schema response_format support varies too much across compatible servers
+        return false;
+    }
+
+    async validateKey(model: string): Promise<boolean> {
+        const { text } = await this.chat(model, [{ role: 'user', content: 'Say "OK" if you can hear me.' }]);
+        return text.toLowerCase().includes('ok');
+    }
+}
+
+export default OpenAICompatibleProvider;
@@ -0,0 +1,49 @@
+/**
+ * Model Provider Contract
+ * Every LLM backend used by ai.service implements this interface
+ */
+
+import type { ProviderType, TokenUsage } from '../../types';
+import type { JsonSchema } from '../../utils/schemaValidator';
+
+export interface ProviderRequestOptions {
+    /** Ask for native JSON output constrained to this schema (only if supportsStructuredOutput) */
+    responseSchema?: JsonSchema;
+    signal?: AbortSignal;
+    /** Stream the reply; called with each text delta as it arrives */
+    onText?: (delta: string) => void;
+}
+
+export interface ProviderResponse {
+    text: string;
+    /** Token counts reported by the API, or estimated where it reports none */
+    usage: TokenUsage;
+}
+
+export interface VisionLLMProvider {
+    readonly type: ProviderType;
+
+    /** Send a system prompt plus one inline image, return the raw text reply and usage */
+    generateWithImage(
+        model: string,
+        systemPrompt: string,
+        imageBase64: string,
+        mimeType: string,
+        options?: ProviderRequestOptions
+    ): Promise<ProviderResponse>;
+
+    /** Send a system prompt plus user text, return the raw text reply and usage */
+    generateWithText(model: string, systemPrompt: string, userInput: string, options?: ProviderRequestOptions): Promise<ProviderResponse>;
+
+    /** Whether the model accepts a responseSchema and replies with bare JSON */
+    supportsStructuredOutput(model: string): boolean;
+
+    /** Cheap round-trip proving the key and model are usable */
+    validateKey(model: string): Promise<boolean>;
+}
+
+export interface ProviderConfig {
+    type: ProviderType;
+    apiKey: string;
+    baseUrl?: string;
+}
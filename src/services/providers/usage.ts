@@ -0,0 +1,26 @@
+/**
+ * Provider Usage
+ * Token counts for a reply, estimated from text length when the API
+ * reports none (some OpenAI-compatible servers, interrupted streams).
+ */
+
+import type { TokenUsage } from '../../types';
+
+// Flat per-image token cost, in line with what Gemini bills for a single image
+export const IMAGE_TOKENS = 258;
+
+/**
+ * Rough token count, ~4 characters per token
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated usage of a request with `imageCount` images and its reply
+ */
+export function estimateUsage(prompt: string, output: string, imageCount = 0): TokenUsage {
+    const inputTokens = estimateTokens(prompt) + imageCount * IMAGE_TOKENS;
+    const outputTokens = estimateTokens(output);
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, estimated: true };
+}
@@ -0,0 +1,283 @@
+/**
+ * Rate Limiter Service
+ * Token buckets for requests/minute, tokens/minute and requests/day from
+ * configs/queue.yaml, kept per model and API key since providers meter each
+ * key separately. Callers wait in a FIFO queue per bucket, so concurrent
+ * batch workers are served in arrival order. Daily request counts are kept
+ * with the key's usage so they survive a reload.
+ */
+
+import queueYaml from '../../configs/queue.yaml?raw';
+import { useAppStore } from '../state';
+import { parseYaml, section, type YamlValue } from '../utils/yaml';
+import { AIError, estimateTokens, IMAGE_TOKENS } from './providers';
+
+export interface RateLimit {
+    /** Requests per minute, 0 = unlimited */
+    rpm: number;
+    /** Tokens per minute, 0 = unlimited */
+    tpm: number;
+    /** Requests per day, 0 = unlimited */
+    rpd: number;
+}
+
+interface Bucket {
+    capacity: number;
+    available: number;
+    refillPerMs: number;
+    updatedAt: number;
+}
+
+interface Waiter {
+    tokens: number;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+interface ModelLimiter {
+    model: string;
+    keyId: string;
+    limit: RateLimit;
+    requests: Bucket | null;
+    tokens: Bucket | null;
+    day: string;
+    requestsToday: number;
+    /** Set from Retry-After hints; nothing is released before it */
+    blockedUntil: number;
+    queue: Waiter[];
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * The configured requests/day budget is spent. Raised locally before any
+ * request is sent, so it says nothing about the key's or the model's health.
+ */
+export class DailyLimitError extends AIError {
+    name = 'DailyLimitError';
+    readonly kind = 'quota';
+}
+
+// Reserved for the reply until the API reports real usage
+const OUTPUT_TOKEN_ALLOWANCE = 1024;
+
+function toLimit(value: YamlValue | undefined): RateLimit {
+    const entry = section(value);
+    const read = (key: string) => typeof entry[key] === 'number' ? entry[key] as number : 0;
+    return { rpm: read('rpm'), tpm: read('tpm'), rpd: read('rpd') };
+}
+
+const config = parseYaml(queueYaml);
+const rateLimitsConfig = section(config.rate_limits);
+const modelsConfig = section(rateLimitsConfig.models);
+
+export const DEFAULT_RATE_LIMIT: RateLimit = toLimit(rateLimitsConfig.default);
+export const RATE_LIMITS: Record<string, RateLimit> = Object.fromEntries(
+    Object.entries(modelsConfig).map(([model, limit]) => [model, toLimit(limit)])
+);
+
+const limiters = new Map<string, ModelLimiter>();
+
+export function getRateLimit(model: string): RateLimit {
+    return RATE_LIMITS[model] ?? DEFAULT_RATE_LIMIT;
+}
+
+function createBucket(perMinute: number, now: number): Bucket | null {
+    if (perMinute <= 0) return null;
+    return { capacity: perMinute, available: perMinute, refillPerMs: perMinute / 60_000, updatedAt: now };
+}
+
+function refill(bucket: Bucket, now: number): void {
+    bucket.available = Math.min(bucket.capacity, bucket.available + (now - bucket.updatedAt) * bucket.refillPerMs);
+    bucket.updatedAt = now;
+}
+
+/**
+ * Milliseconds until the bucket holds `amount`
+ */
+function waitFor(bucket: Bucket | null, amount: number): number {
+    if (!bucket || bucket.available >= amount) return 0;
+    return (amount - bucket.available) / bucket.refillPerMs;
+}
+
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function loadRequestsToday(keyId: string, model: string, day: string): number {
+    const entry = useAppStore.getState().apiKeys.find(k => k.id === keyId);
+    const daily = entry?.usage.dailyRequests;
+    return daily?.day === day ? daily.byModel[model] ?? 0 : 0;
+}
+
+function saveRequestsToday(keyId: string, model: string, day: string, count: number): void {
+    const { apiKeys, updateApiKey } = useAppStore.getState();
+    const entry = apiKeys.find(k => k.id === keyId);
+    // Keys still being validated are not stored yet
+    if (!entry) return;
+
+    const daily = entry.usage.dailyRequests;
+    const byModel = daily?.day === day ? daily.byModel : {};
+    updateApiKey(keyId, { usage: { dailyRequests: { day, byModel: { ...byModel, [model]: count } } } });
+}
+
+function getLimiter(model: string, keyId: string): ModelLimiter {
+    const scope = `${keyId}:${model}`;
+    let limiter = limiters.get(scope);
+    if (!limiter) {
+        const limit = getRateLimit(model);
+        const now = Date.now();
+        const day = today();
+        limiter = {
+            model,
+            keyId,
+            limit,
+            requests: createBucket(limit.rpm, now),
+            tokens: createBucket(limit.tpm, now),
+            day,
+            requestsToday: loadRequestsToday(keyId, model, day),
+            blockedUntil: 0,
+            queue: [],
+            timer: null,
+        };
+        limiters.set(scope, limiter);
+    }
+    return limiter;
+}
+
+/**
+ * Release queued callers in order while the budgets allow,
+ * then sleep until the head of the queue can go
+ */
+function pump(limiter: ModelLimiter): void {
+    if (limiter.timer) {
+        clearTimeout(limiter.timer);
+        limiter.timer = null;
+    }
+
+    while (limiter.queue.length > 0) {
+        const head = limiter.queue[0];
+        const now = Date.now();
+
+        if (limiter.day !== today()) {
+            limiter.day = today();
+            limiter.requestsToday = 0;
+        }
+        if (limiter.limit.rpd > 0 && limiter.requestsToday >= limiter.limit.rpd) {
+            limiter.queue.shift();
+            head.reject(new DailyLimitError(
+                `Daily quota exhausted for ${limiter.model} (${limiter.limit.rpd} requests/day)`,
+                { model: limiter.model }
+            ));
+            continue;
+        }
+
+        if (limiter.requests) refill(limiter.requests, now);
+        if (limiter.tokens) refill(limiter.tokens, now);
+
+        const wait = Math.max(
+            limiter.blockedUntil - now,
+            waitFor(limiter.requests, 1),
+            waitFor(limiter.tokens, head.tokens)
+        );
+        if (wait > 0) {
+            limiter.timer = setTimeout(() => pump(limiter), Math.ceil(wait));
+            return;
+        }
+
+        if (limiter.requests) limiter.requests.available -= 1;
+        if (limiter.tokens) limiter.tokens.available -= head.tokens;
+        limiter.requestsToday++;
+        if (limiter.limit.rpd > 0) {
+            saveRequestsToday(limiter.keyId, limiter.model, limiter.day, limiter.requestsToday);
+        }
+        limiter.queue.shift();
+        head.resolve();
+    }
+}
+
+/**
+ * Rough token cost of a request: the estimated prompt and images plus an
+ * allowance for the reply
+ */
+export function estimateRequestTokens(text: string, imageCount = 0): number {
+    return estimateTokens(text) + imageCount * IMAGE_TOKENS + OUTPUT_TOKEN_ALLOWANCE;
+}
+
+/**
+ * Wait for a request slot on the model with this key. Resolves in FIFO
+ * order; rejects when the daily quota is spent or the signal aborts.
+ */
+export function acquire(model: string, keyId: string, estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    const limiter = getLimiter(model, keyId);
+
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error('Rate limit wait aborted'));
+            return;
+        }
+
+        // A request larger than the whole bucket would never fit, so it waits for a full one
+        const capacity = limiter.tokens?.capacity ?? estimatedTokens;
+        const waiter: Waiter = {
+            tokens: Math.min(estimatedTokens, capacity),
+            resolve: () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            },
+            reject: (error) => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        };
+        const onAbort = () => {
+            const index = limiter.queue.indexOf(waiter);
+            if (index !== -1) {
+                limiter.queue.splice(index, 1);
+                waiter.reject(new Error('Rate limit wait aborted'));
+                pump(limiter);
+            }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        limiter.queue.push(waiter);
+        pump(limiter);
+    });
+}
+
+/**
+ * Correct the token bucket once the API reports what a call really used
+ */
+export function reconcile(model: string, keyId: string, estimatedTokens: number, actualTokens: number): void {
+    const limiter = getLimiter(model, keyId);
+    if (!limiter.tokens || actualTokens <= 0) return;
+
+    refill(limiter.tokens, Date.now());
+    const charged = Math.min(estimatedTokens, limiter.tokens.capacity);
+    limiter.tokens.available = Math.min(limiter.tokens.capacity, limiter.tokens.available + charged - actualTokens);
+}
+
+/**
+ * Adapt to a 429: hold the model's queue for the hinted time, or drain the
+ * request bucket when the API gave no hint
+ */
+export function applyRateLimitError(model: string, keyId: string, retryAfterMs?: number): void {
+    const limiter = getLimiter(model, keyId);
+    const now = Date.now();
+
+    if (retryAfterMs !== undefined) {
+        limiter.blockedUntil = Math.max(limiter.blockedUntil, now + retryAfterMs);
+        console.log(`⏸️ Holding ${model} for ${Math.round(retryAfterMs / 1000)}s (Retry-After)`);
+    } else if (limiter.requests) {
+        refill(limiter.requests, now);
+        limiter.requests.available = 0;
+    }
+    pump(limiter);
+}
+
+export default {
+    getRateLimit,
+    estimateRequestTokens,
+    acquire,
+    reconcile,
+    applyRateLimitError,
+};
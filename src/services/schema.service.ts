@@ -0,0 +1,53 @@
+/**
+ * Schema Service
+ * Module output schemas (modules/<module>/schema) and runtime validation
+ */
+
+import identitySchema from '../../modules/grid_to_json/schema/identity.schema.json';
+import panelSchema from '../../modules/grid_to_json/schema/panel.schema.json';
+import visionSchema from '../../modules/vision_to_json/schema/vision.schema.json';
+import realisticSchema from '../../modules/realistic_to_json/schema/realistic.schema.json';
+import { validateSchema, type JsonSchema } from '../utils/schemaValidator';
+import type { SchemaViolation } from '../types';
+
+export type OutputSchemaKind = 'identity' | 'panel' | 'vision' | 'realistic';
+
+export const OUTPUT_SCHEMAS: Record<OutputSchemaKind, JsonSchema> = {
+    identity: identitySchema as JsonSchema,
+    panel: panelSchema as JsonSchema,
+    vision: visionSchema as JsonSchema,
+    realistic: realisticSchema as JsonSchema,
+};
+
+export function getSchemaId(kind: OutputSchemaKind): string {
+    return OUTPUT_SCHEMAS[kind].$id || kind;
+}
+
+export function validateOutput(kind: OutputSchemaKind, data: unknown): SchemaViolation[] {
+    return validateSchema(data, OUTPUT_SCHEMAS[kind]);
+}
+
+/**
+ * Follow-up prompt asking the model to fix its own output
+ */
+export function buildRepairPrompt(violations: SchemaViolation[], previousOutput: string): string {
+    const list = violations
+        .slice(0, 50)
+        .map(v => `- ${v.path}: ${v.message}`)
+        .join('\n');
+
+    return `Your previous JSON output does not match the required schema. Violations:
+${list}
+
+Return the complete corrected JSON object only, wrapped in triple backticks. Keep every value that was already valid.
+
+Previous output:
+${previousOutput}`;
+}
+
+export default {
+    OUTPUT_SCHEMAS,
+    getSchemaId,
+    validateOutput,
+    buildRepairPrompt,
+};
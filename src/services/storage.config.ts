@@ -0,0 +1,31 @@
+/**
+ * Storage Config
+ * Retention defaults and sweeper timing from configs/storage.yaml. Kept apart
+ * from the storage service so the app store can read the defaults without
+ * pulling in the database layer.
+ */
+
+import storageYaml from '../../configs/storage.yaml?raw';
+import type { RetentionPolicy } from '../types';
+import { parseYaml, section, type YamlValue } from '../utils/yaml';
+
+const MB = 1024 * 1024;
+
+function readNumber(values: Record<string, YamlValue>, key: string): number {
+    return typeof values[key] === 'number' ? values[key] as number : 0;
+}
+
+const config = parseYaml(storageYaml);
+const retentionConfig = section(config.retention);
+const sweeperConfig = section(config.sweeper);
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    maxJobsPerModule: readNumber(retentionConfig, 'max_jobs_per_module'),
+    failedInputDays: readNumber(retentionConfig, 'failed_input_days'),
+    maxAssetBytes: readNumber(retentionConfig, 'max_asset_mb') * MB,
+};
+
+export const SWEEP_INTERVAL_MS = (readNumber(sweeperConfig, 'interval_minutes') || 30) * 60 * 1000;
+
+/** Assets younger than this are never evicted to meet the byte cap */
+export const RECENT_ASSET_MS = readNumber(sweeperConfig, 'recent_asset_hours') * 60 * 60 * 1000;
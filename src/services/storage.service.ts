@@ -0,0 +1,224 @@
+/**
+ * Storage Service
+ * Reports how much IndexedDB space the app uses, asks the browser not to
+ * evict it, and enforces the retention rules from configs/storage.yaml
+ * with a periodic sweep.
+ */
+
+import db from '../db';
+import type { Asset, AssetType, Job, ModuleType, RetentionPolicy, UUID } from '../types';
+import { releaseImageUrls } from './image.service';
+import { hasJobsInFlight } from './job.service';
+import { RECENT_ASSET_MS, SWEEP_INTERVAL_MS } from './storage.config';
+
+export type StoreName = 'jobs' | 'manifests' | 'batches' | 'assets' | 'thumbnails' | 'prompts' | 'settings';
+
+export interface UsageEntry {
+    count: number;
+    bytes: number;
+}
+
+export interface StorageReport {
+    /** Origin-wide figures from navigator.storage.estimate(), when available */
+    usage?: number;
+    quota?: number;
+    /** Whether the browser has agreed not to evict this origin's data */
+    persisted: boolean;
+    tables: Record<StoreName, UsageEntry>;
+    assetTypes: Partial<Record<AssetType, UsageEntry>>;
+}
+
+export interface SweepResult {
+    jobsDeleted: number;
+    assetsDeleted: number;
+    bytesFreed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+// Give boot and batch recovery time to settle before the first sweep
+const FIRST_SWEEP_DELAY_MS = 60 * 1000;
+
+const FINISHED_STATUSES: Job['status'][] = ['completed', 'failed', 'cancelled'];
+
+function assetBytes(asset: Asset): number {
+    return asset.data instanceof Blob ? asset.data.size : asset.data.length;
+}
+
+/**
+ * Serialised size of a plain record; close enough for a usage breakdown
+ */
+function recordBytes(record: unknown): number {
+    return JSON.stringify(record).length;
+}
+
+async function measureRecords(name: 'jobs' | 'manifests' | 'batches' | 'prompts' | 'settings'): Promise<UsageEntry> {
+    const entry: UsageEntry = { count: 0, bytes: 0 };
+    await db.table(name).each(record => {
+        entry.count++;
+        entry.bytes += recordBytes(record);
+    });
+    return entry;
+}
+
+/**
+ * Usage per table and per asset type, plus the browser's own estimate
+ */
+export async function getStorageReport(): Promise<StorageReport> {
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    const persisted = navigator.storage?.persisted ? await navigator.storage.persisted() : false;
+
+    const [jobs, manifests, batches, prompts, settings] = await Promise.all([
+        measureRecords('jobs'),
+        measureRecords('manifests'),
+        measureRecords('batches'),
+        measureRecords('prompts'),
+        measureRecords('settings'),
+    ]);
+
+    const assets: UsageEntry = { count: 0, bytes: 0 };
+    const assetTypes: StorageReport['assetTypes'] = {};
+    await db.assets.each(asset => {
+        const bytes = assetBytes(asset);
+        assets.count++;
+        assets.bytes += bytes;
+        const byType = assetTypes[asset.type] ??= { count: 0, bytes: 0 };
+        byType.count++;
+        byType.bytes += bytes;
+    });
+
+    const thumbnails: UsageEntry = { count: 0, bytes: 0 };
+    await db.thumbnails.each(thumbnail => {
+        thumbnails.count++;
+        thumbnails.bytes += thumbnail.data.size;
+    });
+
+    return {
+        usage: estimate.usage,
+        quota: estimate.quota,
+        persisted,
+        tables: { jobs, manifests, batches, assets, thumbnails, prompts, settings },
+        assetTypes,
+    };
+}
+
+/**
+ * Ask the browser to exempt this origin from eviction under storage pressure.
+ * Resolves with whether storage is now persistent.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+}
+
+/**
+ * Apply the retention rules once. Jobs still pending or running, and the
+ * inputs they need, are never touched.
+ */
+export async function sweepStorage(policy: RetentionPolicy, now = Date.now()): Promise<SweepResult> {
+    const [jobs, assets] = await Promise.all([
+        db.jobs.toArray(),
+        db.assets.orderBy('createdAt').toArray(),
+    ]);
+    const assetsById = new Map(assets.map(asset => [asset.id, asset]));
+    const jobIdsToDelete = new Set<UUID>();
+    const assetIdsToDelete = new Set<UUID>();
+
+    // Keep the newest finished jobs per module; the rest go with their outputs
+    if (policy.maxJobsPerModule > 0) {
+        const byModule = new Map<ModuleType, Job[]>();
+        for (const job of jobs.filter(j => FINISHED_STATUSES.includes(j.status))) {
+            byModule.set(job.module, [...(byModule.get(job.module) ?? []), job]);
+        }
+        for (const moduleJobs of byModule.values()) {
+            moduleJobs.sort((a, b) => b.createdAt - a.createdAt);
+            for (const job of moduleJobs.slice(policy.maxJobsPerModule)) {
+                jobIdsToDelete.add(job.id);
+                job.outputRefs.forEach(id => assetIdsToDelete.add(id));
+            }
+        }
+    }
+
+    const keptJobs = jobs.filter(job => !jobIdsToDelete.has(job.id));
+    const keptInputs = new Set(keptJobs.flatMap(job => job.inputRefs));
+    for (const job of jobs) {
+        if (jobIdsToDelete.has(job.id)) {
+            job.inputRefs.filter(ref => !keptInputs.has(ref)).forEach(ref => assetIdsToDelete.add(ref));
+        }
+    }
+
+    // Inputs only failed jobs still point at expire after the configured days
+    if (policy.failedInputDays > 0) {
+        const cutoff = now - policy.failedInputDays * DAY_MS;
+        const liveInputs = new Set(keptJobs.filter(job => job.status !== 'failed').flatMap(job => job.inputRefs));
+        for (const job of keptJobs) {
+            if (job.status === 'failed' && (job.completedAt ?? job.createdAt) < cutoff) {
+                job.inputRefs.filter(ref => !liveInputs.has(ref)).forEach(ref => assetIdsToDelete.add(ref));
+            }
+        }
+    }
+
+    // Byte cap: drop the oldest assets no kept job uses until the rest fit,
+    // sparing recent uploads that are likely about to be run
+    if (policy.maxAssetBytes > 0) {
+        const keptJobIds = new Set(keptJobs.map(job => job.id));
+        const referenced = new Set(keptJobs.flatMap(job => [...job.inputRefs, ...job.outputRefs]));
+        const recentSince = now - RECENT_ASSET_MS;
+        let total = assets
+            .filter(asset => !assetIdsToDelete.has(asset.id))
+            .reduce((sum, asset) => sum + assetBytes(asset), 0);
+        for (const asset of assets) {
+            if (total <= policy.maxAssetBytes) break;
+            if (assetIdsToDelete.has(asset.id) || referenced.has(asset.id)) continue;
+            if ((asset.jobId && keptJobIds.has(asset.jobId)) || asset.createdAt >= recentSince) continue;
+            assetIdsToDelete.add(asset.id);
+            total -= assetBytes(asset);
+        }
+    }
+
+    const assetIds = [...assetIdsToDelete].filter(id => assetsById.has(id));
+    const result: SweepResult = {
+        jobsDeleted: jobIdsToDelete.size,
+        assetsDeleted: assetIds.length,
+        bytesFreed: assetIds.reduce((sum, id) => sum + assetBytes(assetsById.get(id)!), 0),
+    };
+    if (result.jobsDeleted === 0 && result.assetsDeleted === 0) {
+        return result;
+    }
+
+    await db.transaction('rw', [db.jobs, db.manifests, db.assets, db.thumbnails], async () => {
+        await db.jobs.bulkDelete([...jobIdsToDelete]);
+        await db.manifests.bulkDelete([...jobIdsToDelete]);
+        await db.assets.bulkDelete(assetIds);
+        await db.thumbnails.bulkDelete(assetIds);
+    });
+    assetIds.forEach(releaseImageUrls);
+
+    console.log(`🧹 Storage sweep removed ${result.jobsDeleted} job(s) and ${result.assetsDeleted} asset(s), freeing ${(result.bytesFreed / MB).toFixed(1)} MB`);
+    return result;
+}
+
+/**
+ * Sweep periodically with whatever policy is current. Skips a round while
+ * jobs are running in this tab. Returns a function that stops the sweeper.
+ */
+export function startStorageSweeper(getPolicy: () => RetentionPolicy): () => void {
+    const run = () => {
+        if (hasJobsInFlight()) return;
+        sweepStorage(getPolicy()).catch(error => console.error('Storage sweep failed:', error));
+    };
+
+    const first = setTimeout(run, FIRST_SWEEP_DELAY_MS);
+    const interval = setInterval(run, SWEEP_INTERVAL_MS);
+    return () => {
+        clearTimeout(first);
+        clearInterval(interval);
+    };
+}
+
+export default {
+    getStorageReport,
+    requestPersistentStorage,
+    sweepStorage,
+    startStorageSweeper,
+};
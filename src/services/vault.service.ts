@@ -0,0 +1,263 @@
+/**
+ * Vault Service
+ * Where API key secrets live at rest: plaintext in IndexedDB by default, or
+ * encrypted with a passphrase once the vault is enabled (PBKDF2-SHA256
+ * derives an AES-GCM key). The derived key is held in memory only while
+ * the vault is unlocked; the passphrase itself is never stored.
+ */
+
+import { settingsOperations } from '../db';
+import { useAppStore } from '../state';
+import type { ApiKeyEntry, EncryptedVault } from '../types';
+import { disconnectProvider, initializeProvider, isInitialized } from './ai.service';
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Activity that keeps an unlocked vault open
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'wheel'] as const;
+
+interface UnlockedVault {
+    key: CryptoKey;
+    salt: string;
+    iterations: number;
+}
+
+let unlocked: UnlockedVault | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+}
+
+function fromBase64(text: string) {
+    return Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+async function seal(vault: UnlockedVault, keys: ApiKeyEntry[]): Promise<EncryptedVault> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        vault.key,
+        new TextEncoder().encode(JSON.stringify(keys))
+    );
+    return {
+        version: 1,
+        iterations: vault.iterations,
+        salt: vault.salt,
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+}
+
+/**
+ * Decrypt with an already derived key; AES-GCM rejects a wrong key outright
+ */
+async function open(key: CryptoKey, vault: EncryptedVault): Promise<ApiKeyEntry[]> {
+    try {
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+            key,
+            fromBase64(vault.ciphertext)
+        );
+        return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+        throw new Error('Wrong passphrase');
+    }
+}
+
+export async function isVaultEnabled(): Promise<boolean> {
+    return (await settingsOperations.getKeyVault()) !== null;
+}
+
+export function isVaultUnlocked(): boolean {
+    return unlocked !== null;
+}
+
+/**
+ * Encrypt the key list under a new passphrase and drop the plaintext copy
+ */
+export async function enableVault(passphrase: string, keys: ApiKeyEntry[]): Promise<void> {
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+    const vault = { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+
+    await settingsOperations.saveKeyVault(await seal(vault, keys));
+    await settingsOperations.saveApiKeys([]);
+    unlocked = vault;
+}
+
+/**
+ * Go back to plaintext storage; the caller must hold the unlocked keys
+ */
+export async function disableVault(keys: ApiKeyEntry[]): Promise<void> {
+    await settingsOperations.saveApiKeys(keys);
+    await settingsOperations.saveKeyVault(undefined);
+    unlocked = null;
+}
+
+/**
+ * Derive the key from the passphrase and decrypt the key list.
+ * Throws 'Wrong passphrase' if it does not open the vault.
+ */
+export async function unlockVault(passphrase: string): Promise<ApiKeyEntry[]> {
+    const stored = await settingsOperations.getKeyVault();
+    if (!stored) {
+        throw new Error('No vault to unlock');
+    }
+
+    const key = await deriveKey(passphrase, stored.salt, stored.iterations);
+    const keys = await open(key, stored);
+    unlocked = { key, salt: stored.salt, iterations: stored.iterations };
+    return keys;
+}
+
+/**
+ * Forget the derived key; the keys have to be unlocked again before use
+ */
+export function lockVault(): void {
+    unlocked = null;
+}
+
+/**
+ * Persist the key list wherever secrets currently live
+ */
+export async function saveKeySecrets(keys: ApiKeyEntry[]): Promise<void> {
+    if (!(await isVaultEnabled())) {
+        await settingsOperations.saveApiKeys(keys);
+        return;
+    }
+    if (!unlocked) {
+        throw new Error('Unlock the vault before changing API keys');
+    }
+    await settingsOperations.saveKeyVault(await seal(unlocked, keys));
+}
+
+/**
+ * Read the stored key list; null while the vault is locked
+ */
+export async function loadKeySecrets(): Promise<ApiKeyEntry[] | null> {
+    const stored = await settingsOperations.getKeyVault();
+    if (!stored) {
+        return settingsOperations.getApiKeys();
+    }
+    return unlocked ? open(unlocked.key, stored) : null;
+}
+
+/**
+ * Put loaded secrets into the app state and reconnect the provider
+ */
+async function connectKeys(secrets: ApiKeyEntry[]): Promise<void> {
+    useAppStore.getState().setKeySecrets(secrets);
+    const { apiKeys, providerSettings, setApiKeys } = useAppStore.getState();
+    // apiKeyValid is dropped while locked, so go by the keys that passed validation before
+    const validated = apiKeys.filter(k => k.status === 'valid' || k.status === 'exhausted');
+    if (validated.length > 0 && !isInitialized()) {
+        await initializeProvider(validated, providerSettings);
+    }
+    setApiKeys(useAppStore.getState().apiKeys, isInitialized());
+}
+
+/**
+ * Load the stored keys at startup and connect the provider.
+ * Returns false when the vault is locked and needs the passphrase first.
+ */
+export async function restoreKeys(): Promise<boolean> {
+    const store = useAppStore.getState();
+    const enabled = await isVaultEnabled();
+
+    // Older versions persisted key secrets in localStorage; move them to IndexedDB
+    if (!enabled && store.apiKeys.some(k => k.key)) {
+        await settingsOperations.saveApiKeys(store.apiKeys);
+    }
+
+    const secrets = await loadKeySecrets();
+    store.setVaultState(enabled, secrets === null);
+    if (!secrets) {
+        return false;
+    }
+    await connectKeys(secrets);
+    return true;
+}
+
+/**
+ * Unlock the vault and connect the provider with its keys
+ */
+export async function unlockKeys(passphrase: string): Promise<void> {
+    const secrets = await unlockVault(passphrase);
+    useAppStore.getState().setVaultState(true, false);
+    await connectKeys(secrets);
+}
+
+/**
+ * Lock the vault and drop every copy of the key secrets from memory
+ */
+export function lockKeys(): void {
+    lockVault();
+    disconnectProvider();
+    useAppStore.getState().lockKeys();
+}
+
+/**
+ * Call onLock after `minutes` without user activity. Busy periods
+ * (e.g. jobs still running) push the lock back instead of cutting them off.
+ * Returns a function that stops the timer.
+ */
+export function startAutoLock(minutes: number, onLock: () => void, isBusy: () => boolean = () => false): () => void {
+    const timeoutMs = minutes * 60 * 1000;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const reset = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(fire, timeoutMs);
+    };
+    const fire = () => {
+        if (isBusy()) {
+            reset();
+            return;
+        }
+        console.log('🔒 Vault auto-locked after inactivity');
+        onLock();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    reset();
+
+    return () => {
+        if (timer) clearTimeout(timer);
+        ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+}
+
+export default {
+    isVaultEnabled,
+    isVaultUnlocked,
+    enableVault,
+    disableVault,
+    unlockVault,
+    lockVault,
+    saveKeySecrets,
+    loadKeySecrets,
+    restoreKeys,
+    unlockKeys,
+    lockKeys,
+    startAutoLock,
+};
@@ -4,22 +4,55 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { ModuleType, Asset, IdentityJSON, VisionJSON, RealisticJSON } from '../types';
+import type { ModuleType, Asset, IdentityJSON, VisionJSON, RealisticJSON, ProviderSettings, ApiKeyEntry, ApiKeyUsage, RetentionPolicy, UUID } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from '../services/providers';
+import { DEFAULT_RETENTION_POLICY } from '../services/storage.config';
 
 // ============================================================================
 // APP STATE
 // ============================================================================
 
+export function createApiKeyEntry(name: string, key: string, status: ApiKeyEntry['status'] = 'unchecked'): ApiKeyEntry {
+    return {
+        id: crypto.randomUUID(),
+        name,
+        key,
+        status,
+        usage: { calls: 0, totalTokens: 0, quotaErrors: 0 },
+    };
+}
+
 interface AppState {
     currentModule: ModuleType | null;
     sidebarCollapsed: boolean;
-    apiKey: string | null;
+    apiKeys: ApiKeyEntry[];
+    /** At least one key validated and the provider is usable */
     apiKeyValid: boolean;
+    providerSettings: ProviderSettings;
+    autoRepairOutput: boolean;
+    /** Key secrets are stored encrypted and need a passphrase to load */
+    vaultEnabled: boolean;
+    /** Secrets are not in memory until the vault is unlocked */
+    vaultLocked: boolean;
+    /** Lock after this many idle minutes, 0 = never */
+    vaultAutoLockMinutes: number;
+    /** What the storage sweeper may delete; 0 disables a rule */
+    retentionPolicy: RetentionPolicy;
 
     setCurrentModule: (module: ModuleType | null) => void;
     toggleSidebar: () => void;
-    setApiKey: (key: string, valid: boolean) => void;
-    clearApiKey: () => void;
+    setApiKeys: (keys: ApiKeyEntry[], valid: boolean) => void;
+    updateApiKey: (id: UUID, changes: Partial<Omit<ApiKeyEntry, 'usage'>> & { usage?: Partial<ApiKeyUsage> }) => void;
+    clearApiKeys: () => void;
+    /** Fill in key secrets loaded from storage, matched by id */
+    setKeySecrets: (secrets: Pick<ApiKeyEntry, 'id' | 'key'>[]) => void;
+    /** Drop key secrets from memory and mark the vault locked */
+    lockKeys: () => void;
+    setVaultState: (enabled: boolean, locked: boolean) => void;
+    setVaultAutoLockMinutes: (minutes: number) => void;
+    setProviderSettings: (settings: ProviderSettings) => void;
+    setAutoRepairOutput: (enabled: boolean) => void;
+    setRetentionPolicy: (policy: RetentionPolicy) => void;
 }
 
 export const useAppStore = create<AppState>()(
@@ -27,20 +60,74 @@ export const useAppStore = create<AppState>()(
         (set) => ({
             currentModule: null,
             sidebarCollapsed: false,
-            apiKey: null,
+            apiKeys: [],
             apiKeyValid: false,
+            providerSettings: DEFAULT_PROVIDER_SETTINGS,
+            autoRepairOutput: false,
+            vaultEnabled: false,
+            vaultLocked: false,
+            vaultAutoLockMinutes: 15,
+            retentionPolicy: DEFAULT_RETENTION_POLICY,
 
             setCurrentModule: (module) => set({ currentModule: module }),
             toggleSidebar: () => set((state) => ({ sidebarCollapsed: !state.sidebarCollapsed })),
-            setApiKey: (key, valid) => set({ apiKey: key, apiKeyValid: valid }),
-            clearApiKey: () => set({ apiKey: null, apiKeyValid: false }),
+            setApiKeys: (keys, valid) => set({ apiKeys: keys, apiKeyValid: valid }),
+            updateApiKey: (id, changes) => set((state) => ({
+                apiKeys: state.apiKeys.map(entry => entry.id === id
+                    ? { ...entry, ...changes, usage: { ...entry.usage, ...changes.usage } }
+                    : entry),
+            })),
+            clearApiKeys: () => set({ apiKeys: [], apiKeyValid: false }),
+            setKeySecrets: (secrets) => set((state) => ({
+                apiKeys: state.apiKeys.map(entry => ({
+                    ...entry,
+                    key: secrets.find(s => s.id === entry.id)?.key ?? entry.key,
+                })),
+            })),
+            lockKeys: () => set((state) => ({
+                apiKeys: state.apiKeys.map(entry => ({ ...entry, key: '' })),
+                apiKeyValid: false,
+                vaultLocked: true,
+            })),
+            // Locked keys cannot be used until the vault is unlocked and they reconnect
+            setVaultState: (enabled, locked) => set((state) => ({
+                vaultEnabled: enabled,
+                vaultLocked: locked,
+                apiKeyValid: state.apiKeyValid && !locked,
+            })),
+            setVaultAutoLockMinutes: (minutes) => set({ vaultAutoLockMinutes: minutes }),
+            setProviderSettings: (settings) => set({ providerSettings: settings }),
+            setAutoRepairOutput: (enabled) => set({ autoRepairOutput: enabled }),
+            setRetentionPolicy: (policy) => set({ retentionPolicy: policy }),
         }),
         {
             name: 'ai-image-platform-app',
+            version: 2,
+            // v0 stored a single apiKey string; v1 kept key secrets here, which boot moves to IndexedDB
+            migrate: (persisted, version) => {
+                const state = persisted as Record<string, unknown>;
+                if (version < 1) {
+                    const { apiKey, ...rest } = state;
+                    return {
+                        ...rest,
+                        // Keyless providers were saved as a validated empty key
+                        apiKeys: typeof apiKey === 'string' && (apiKey || state.apiKeyValid)
+                            ? [createApiKeyEntry('Default', apiKey, state.apiKeyValid ? 'valid' : 'unchecked')]
+                            : [],
+                    };
+                }
+                return state;
+            },
             partialize: (state) => ({
                 sidebarCollapsed: state.sidebarCollapsed,
-                apiKey: state.apiKey,
-                apiKeyValid: state.apiKeyValid,
+                // Secrets live in IndexedDB (or the encrypted vault), never in localStorage
+                apiKeys: state.apiKeys.map(entry => ({ ...entry, key: '' })),
+                apiKeyValid: state.apiKeyValid && !state.vaultLocked,
+                providerSettings: state.providerSettings,
+                autoRepairOutput: state.autoRepairOutput,
+                vaultEnabled: state.vaultEnabled,
+                vaultAutoLockMinutes: state.vaultAutoLockMinutes,
+                retentionPolicy: state.retentionPolicy,
             }),
         }
     )
@@ -13,6 +13,7 @@ export type HexColor = `#${string}`;
 
 export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 export type ModuleType = 'grid_to_json' | 'vision_to_json' | 'realistic_to_json';
+export type BatchStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed';
 
 // ============================================================================
 // JOB SYSTEM
@@ -30,17 +31,112 @@ export interface Job {
     startedAt?: Timestamp;
     completedAt?: Timestamp;
     error?: string;
+    errorKind?: AIErrorKind;
     retryCount: number;
     batchId?: UUID;
+    /** Job this one re-runs, with the same inputs */
+    parentJobId?: UUID;
+    validation?: OutputValidation;
+    extraction?: ExtractionReport;
+    outputMode?: OutputMode;
+    usage?: JobUsage;
 }
 
+/** What kind of failure ended a job; drives retry decisions and the guidance shown */
+export type AIErrorKind = 'auth' | 'quota' | 'safety' | 'invalid_input' | 'parse' | 'transient' | 'unknown';
+
+/** Everything needed to tell what produced a job's output, written when the job is created */
 export interface JobManifest {
     jobId: UUID;
     module: ModuleType;
+    /** Exact system prompt text sent to the model */
     promptSnapshot: string;
+    /** Serialised JSON Schema the output is validated against */
     schemaSnapshot: string;
+    /** `assets` lists each input with its SHA-256; `text` holds text input */
     inputSnapshot: Record<string, unknown>;
+    /** Provider, model chain and generation settings */
     config: Record<string, unknown>;
+    promptVersion: string;
+    /** Model that answered; set when the job completes */
+    model?: string;
+    appVersion: string;
+    createdAt: Timestamp;
+}
+
+// ============================================================================
+// OUTPUT VALIDATION
+// ============================================================================
+
+export interface SchemaViolation {
+    /** JSON Pointer to the offending value, e.g. /identity_blueprint/face_geometry */
+    path: string;
+    message: string;
+}
+
+export interface OutputValidation {
+    schemaId: string;
+    valid: boolean;
+    violations: SchemaViolation[];
+    /** A repair re-prompt was sent because the first output was invalid */
+    repairAttempted: boolean;
+}
+
+export interface StreamProgress {
+    /** Raw text received so far in the current attempt */
+    text: string;
+    /** Best-effort parse of the text so far; the last good parse while mid-token */
+    partial: unknown;
+    /** Estimated until the stream closes and the API reports real usage */
+    outputTokens: number;
+}
+
+/** structured: native JSON mode with a responseSchema; text: JSON extracted from a prose reply */
+export type OutputMode = 'structured' | 'text';
+
+export type JsonRepair =
+    | 'extracted_from_prose'
+    | 'removed_comments'
+    | 'replaced_smart_quotes'
+    | 'removed_trailing_commas'
+    | 'closed_truncated_output';
+
+export interface ExtractionReport {
+    /** Fixes applied before the response would parse, in order */
+    repairs: JsonRepair[];
+    /** The response ended mid-structure, e.g. at the output token limit */
+    truncated: boolean;
+    /** Number of JSON-looking blocks found in the response */
+    candidates: number;
+}
+
+// ============================================================================
+// USAGE & BILLING
+// ============================================================================
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    /** Counted from text length because the API reported no usage */
+    estimated?: boolean;
+}
+
+export interface JobUsage extends TokenUsage {
+    /** Model that produced the final output */
+    model: string;
+    /** API key that produced the final output, see ApiKeyEntry */
+    apiKeyId?: UUID;
+    apiKeyName?: string;
+    /** Model calls that succeeded, including a repair re-prompt */
+    calls: number;
+    /** Total attempts including retries and fallbacks */
+    attempts: number;
+    costUsd: number;
+}
+
+export interface BatchUsage extends TokenUsage {
+    costUsd: number;
 }
 
 // ============================================================================
@@ -50,7 +146,7 @@ export interface JobManifest {
 export interface Batch {
     id: UUID;
     module: ModuleType;
-    status: 'pending' | 'running' | 'paused' | 'completed' | 'failed';
+    status: BatchStatus;
     imageCount: number;
     jobIds: UUID[];
     completedJobs: number;
@@ -59,6 +155,7 @@ export interface Batch {
     startedAt?: Timestamp;
     completedAt?: Timestamp;
     config: BatchConfig;
+    usage?: BatchUsage;
 }
 
 export interface BatchConfig {
@@ -103,6 +200,44 @@ export interface Asset {
     createdAt: Timestamp;
     jobId?: UUID;
     batchId?: UUID;
+    /** Hex SHA-256 of the stored bytes, after any preprocessing */
+    sha256?: string;
+    /** Hex SHA-256 of the uploaded file; uploads with the same hash share one asset */
+    sourceSha256?: string;
+}
+
+/** Fixed-size WebP preview of an image asset, kept apart so lists never load full images */
+export interface Thumbnail {
+    assetId: UUID;
+    data: Blob;
+    width: number;
+    height: number;
+    createdAt: Timestamp;
+}
+
+/** Limits the storage sweeper enforces; 0 disables a rule */
+export interface RetentionPolicy {
+    /** Finished jobs kept per module */
+    maxJobsPerModule: number;
+    /** Days before the input images of failed jobs are deleted */
+    failedInputDays: number;
+    /** Cap on the total size of all assets */
+    maxAssetBytes: number;
+}
+
+/** One step applied to an uploaded image before it was stored */
+export type ImageTransform =
+    | { op: 'orient'; exifOrientation: number }
+    | { op: 'resize'; from: { width: number; height: number }; to: { width: number; height: number } }
+    | { op: 'strip_metadata'; exif: boolean; gps: boolean }
+    | { op: 'encode'; mimeType: string; quality: number };
+
+/** Kept in an input image's metadata under `preprocessing` */
+export interface ImagePreprocessing {
+    original: { filename: string; mimeType: string; size: number; width?: number; height?: number };
+    transforms: ImageTransform[];
+    /** Why the upload was stored unchanged, e.g. a format the browser cannot decode */
+    skipped?: string;
 }
 
 export type AssetType =
@@ -357,9 +492,58 @@ export interface RealisticModuleState {
 // USER SETTINGS
 // ============================================================================
 
+export type ProviderType = 'gemini' | 'openai_compatible' | 'mock';
+
+export interface ProviderSettings {
+    provider: ProviderType;
+    /** Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1 */
+    baseUrl: string;
+    /** Models tried in order; later entries are fallbacks */
+    modelChain: string[];
+}
+
+export type ApiKeyStatus = 'unchecked' | 'valid' | 'invalid' | 'exhausted';
+
+export interface ApiKeyUsage {
+    /** Successful calls made with the key */
+    calls: number;
+    totalTokens: number;
+    /** Quota/rate limit errors the key returned */
+    quotaErrors: number;
+    lastUsedAt?: Timestamp;
+    /** The key is skipped until then after a quota error */
+    exhaustedUntil?: Timestamp;
+    /** Requests sent per model on `day` (UTC), counted against the requests/day limits */
+    dailyRequests?: { day: string; byModel: Record<string, number> };
+}
+
+/** One of several BYOK keys; calls rotate to the next key when one runs out of quota */
+export interface ApiKeyEntry {
+    id: UUID;
+    name: string;
+    key: string;
+    status: ApiKeyStatus;
+    validatedAt?: Timestamp;
+    usage: ApiKeyUsage;
+}
+
+/** API key list encrypted with a passphrase: PBKDF2-SHA256 derives an AES-GCM key */
+export interface EncryptedVault {
+    version: 1;
+    iterations: number;
+    /** Base64 */
+    salt: string;
+    /** Base64, fresh for every save */
+    iv: string;
+    /** Base64 AES-GCM output of the JSON key list */
+    ciphertext: string;
+}
+
 export interface UserSettings {
-    apiKey: string;
-    apiKeyValidated: boolean;
+    /** Plaintext keys; empty while the vault is enabled */
+    apiKeys: ApiKeyEntry[];
+    keyVault?: EncryptedVault;
+    providerSettings: ProviderSettings;
     theme: 'dark' | 'light';
     defaultConcurrency: number;
     autoRetry: boolean;
@@ -0,0 +1,104 @@
+/**
+ * Colour helpers
+ * Parses hex colours and measures how different two colours look, using
+ * CIEDE2000 in CIELAB (D65). A distance around 1 is the smallest
+ * difference most people can see.
+ */
+
+export type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * RGB channels (0-255) of a #rgb or #rrggbb string, or null for anything else
+ */
+export function parseHexColor(value: unknown): Rgb | null {
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(HEX_PATTERN);
+    if (!match) return null;
+    const hex = match[1].length === 3 ? match[1].replace(/./g, ch => ch + ch) : match[1];
+    return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+function toLinear(channel: number): number {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function rgbToLab([red, green, blue]: Rgb): Lab {
+    const r = toLinear(red), g = toLinear(green), b = toLinear(blue);
+    // sRGB to XYZ, normalised by the D65 white point
+    const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+    const y = r * 0.2126729 + g * 0.7151522 + b * 0.0721750;
+    const z = (r * 0.0193339 + g * 0.1191920 + b * 0.9503041) / 1.08883;
+    const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+    const fx = f(x), fy = f(y), fz = f(z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * CIEDE2000 colour difference of two CIELAB colours (Sharma et al., 2005)
+ */
+export function deltaE2000([L1, a1, b1]: Lab, [L2, a2, b2]: Lab): number {
+    const C1 = Math.hypot(a1, b1);
+    const C2 = Math.hypot(a2, b2);
+    const Cbar7 = Math.pow((C1 + C2) / 2, 7);
+    const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+    const a1p = (1 + G) * a1;
+    const a2p = (1 + G) * a2;
+    const C1p = Math.hypot(a1p, b1);
+    const C2p = Math.hypot(a2p, b2);
+    const hue = (b: number, ap: number) => b === 0 && ap === 0 ? 0 : (toDegrees(Math.atan2(b, ap)) + 360) % 360;
+    const h1p = hue(b1, a1p);
+    const h2p = hue(b2, a2p);
+
+    const dLp = L2 - L1;
+    const dCp = C2p - C1p;
+    let dhp = 0;
+    if (C1p * C2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(toRadians(dhp / 2));
+
+    const Lbarp = (L1 + L2) / 2;
+    const Cbarp = (C1p + C2p) / 2;
+    let hbarp = h1p + h2p;
+    if (C1p * C2p !== 0) {
+        if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+        else if (h1p + h2p < 360) hbarp = (h1p + h2p + 360) / 2;
+        else hbarp = (h1p + h2p - 360) / 2;
+    }
+
+    const T = 1
+        - 0.17 * Math.cos(toRadians(hbarp - 30))
+        + 0.24 * Math.cos(toRadians(2 * hbarp))
+        + 0.32 * Math.cos(toRadians(3 * hbarp + 6))
+        - 0.20 * Math.cos(toRadians(4 * hbarp - 63));
+    const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+    const Cbarp7 = Math.pow(Cbarp, 7);
+    const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+    const Sl = 1 + 0.015 * Math.pow(Lbarp - 50, 2) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+    const Sc = 1 + 0.045 * Cbarp;
+    const Sh = 1 + 0.015 * Cbarp * T;
+    const Rt = -Math.sin(toRadians(2 * dTheta)) * Rc;
+
+    return Math.sqrt(
+        Math.pow(dLp / Sl, 2)
+        + Math.pow(dCp / Sc, 2)
+        + Math.pow(dHp / Sh, 2)
+        + Rt * (dCp / Sc) * (dHp / Sh)
+    );
+}
+
+/**
+ * Perceptual distance between two sRGB colours
+ */
+export function colorDistance(first: Rgb, second: Rgb): number {
+    return deltaE2000(rgbToLab(first), rgbToLab(second));
+}
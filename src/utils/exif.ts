@@ -0,0 +1,74 @@
+/**
+ * EXIF
+ * Just enough of a JPEG EXIF reader to tell how an image is rotated and
+ * whether it carries metadata worth stripping. Other formats report no EXIF.
+ */
+
+export interface ExifSummary {
+    hasExif: boolean;
+    hasGps: boolean;
+    /** EXIF orientation 1-8; 1 means upright */
+    orientation: number;
+}
+
+const JPEG_SOI = 0xffd8;
+const MARKER_APP1 = 0xffe1;
+const MARKER_SOS = 0xffda;
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+// "Exif\0\0"
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+
+const NO_EXIF: ExifSummary = { hasExif: false, hasGps: false, orientation: 1 };
+
+/**
+ * Read the IFD0 entries of the TIFF block inside an APP1 segment
+ */
+function readTiff(view: DataView, start: number, end: number): ExifSummary {
+    const littleEndian = view.getUint16(start) === 0x4949;
+    const ifdOffset = view.getUint32(start + 4, littleEndian);
+    const ifdStart = start + ifdOffset;
+    if (ifdStart + 2 > end) return { ...NO_EXIF, hasExif: true };
+
+    const summary: ExifSummary = { hasExif: true, hasGps: false, orientation: 1 };
+    const count = view.getUint16(ifdStart, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 12 > end) break;
+        const tag = view.getUint16(entry, littleEndian);
+        if (tag === TAG_ORIENTATION) {
+            const value = view.getUint16(entry + 8, littleEndian);
+            summary.orientation = value >= 1 && value <= 8 ? value : 1;
+        } else if (tag === TAG_GPS_IFD) {
+            summary.hasGps = true;
+        }
+    }
+    return summary;
+}
+
+/**
+ * Summarise the EXIF block of a JPEG. Malformed data reads as no EXIF.
+ */
+export function readExif(buffer: ArrayBuffer): ExifSummary {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== JPEG_SOI) return NO_EXIF;
+
+    try {
+        let offset = 2;
+        while (offset + 4 <= view.byteLength) {
+            const marker = view.getUint16(offset);
+            if ((marker & 0xff00) !== 0xff00 || marker === MARKER_SOS) break;
+            const length = view.getUint16(offset + 2);
+            const segmentStart = offset + 4;
+            const segmentEnd = Math.min(offset + 2 + length, view.byteLength);
+
+            if (marker === MARKER_APP1 && EXIF_HEADER.every((byte, i) => view.getUint8(segmentStart + i) === byte)) {
+                return readTiff(view, segmentStart + EXIF_HEADER.length, segmentEnd);
+            }
+            offset += 2 + length;
+        }
+    } catch {
+        // Truncated segment; treat as unreadable
+    }
+    return NO_EXIF;
+}
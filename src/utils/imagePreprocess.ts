@@ -0,0 +1,59 @@
+/**
+ * Image Preprocessing
+ * Decodes an upload with its EXIF orientation applied, scales it down to a
+ * maximum edge and re-encodes it, which also drops every metadata block.
+ * Uses only OffscreenCanvas and createImageBitmap so it runs in a worker.
+ */
+
+import type { ImageTransform } from '../types';
+import { readExif } from './exif';
+
+export interface PreprocessOptions {
+    maxEdge: number;
+    mimeType: 'image/jpeg' | 'image/webp';
+    quality: number;
+}
+
+export interface PreprocessResult {
+    blob: Blob;
+    width: number;
+    height: number;
+    original: { width: number; height: number };
+    transforms: ImageTransform[];
+}
+
+export async function preprocessImage(file: Blob, options: PreprocessOptions): Promise<PreprocessResult> {
+    const exif = readExif(await file.arrayBuffer());
+    // 'from-image' rotates by the EXIF orientation, so width/height are as displayed
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const transforms: ImageTransform[] = [];
+
+    if (exif.orientation !== 1) {
+        transforms.push({ op: 'orient', exifOrientation: exif.orientation });
+    }
+
+    const original = { width: bitmap.width, height: bitmap.height };
+    const scale = Math.min(1, options.maxEdge / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    if (scale < 1) {
+        transforms.push({ op: 'resize', from: original, to: { width, height } });
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    if (options.mimeType === 'image/jpeg') {
+        // JPEG has no alpha; flatten transparent areas onto white rather than black
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: options.mimeType, quality: options.quality });
+    transforms.push({ op: 'strip_metadata', exif: exif.hasExif, gps: exif.hasGps });
+    transforms.push({ op: 'encode', mimeType: blob.type, quality: options.quality });
+
+    return { blob, width, height, original, transforms };
+}
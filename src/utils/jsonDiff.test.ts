@@ -0,0 +1,95 @@
+/**
+ * JSON Diff Tests
+ * Tree diffs of module-shaped outputs, and JSON Patches that are applied
+ * back to `before` to check they really produce `after`.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createJsonPatch, diffJson, isImperceptible, summarizeDiff, type JsonPatchOperation } from './jsonDiff';
+
+/**
+ * Minimal RFC 6902 applier for the operations createJsonPatch emits
+ */
+function applyPatch(document: unknown, ops: JsonPatchOperation[]): unknown {
+    let root = structuredClone(document);
+    for (const op of ops) {
+        if (op.path === '') {
+            root = op.op === 'remove' ? undefined : structuredClone(op.value);
+            continue;
+        }
+        const segments = op.path.slice(1).split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+        const key = segments.pop()!;
+        const parent = segments.reduce<any>((node, segment) => node[segment], root);
+        if (Array.isArray(parent)) {
+            const index = Number(key);
+            if (op.op === 'add') parent.splice(index, 0, structuredClone(op.value));
+            else if (op.op === 'remove') parent.splice(index, 1);
+            else parent[index] = structuredClone(op.value);
+        } else if (op.op === 'remove') {
+            delete parent[key];
+        } else {
+            parent[key] = structuredClone(op.value);
+        }
+    }
+    return root;
+}
+
+const ROUND_TRIPS: [string, unknown, unknown][] = [
+    ['identical documents', { a: 1 }, { a: 1 }],
+    ['scalar properties', { a: 1, b: 'x', c: true }, { a: 2, b: 'x', d: null }],
+    ['nested objects', { meta: { v: 1, tags: { x: 1 } } }, { meta: { v: 1, tags: { y: 2 } } }],
+    ['keys that need escaping', { 'a/b': 1, 'c~d': 2 }, { 'a/b': 3, 'e~f/g': 4 }],
+    ['arrays by position', { list: [1, 2, 3, 4] }, { list: [1, 5] }],
+    ['growing arrays', { list: [1] }, { list: [1, 2, 3] }],
+    ['arrays paired by id',
+        { objects: [{ id: 'a', n: 1 }, { id: 'b', n: 2 }, { id: 'c', n: 3 }] },
+        { objects: [{ id: 'a', n: 1 }, { id: 'x', n: 9 }, { id: 'c', n: 4 }, { id: 'y', n: 0 }] }],
+    ['reordered items', { objects: [{ label: 'a' }, { label: 'b' }] }, { objects: [{ label: 'b' }, { label: 'a', extra: 1 }] }],
+    ['a change of type', { value: { a: 1 } }, { value: [1] }],
+    ['a different root', [1, 2], { a: 1 }],
+];
+
+describe('createJsonPatch', () => {
+    it.each(ROUND_TRIPS)('turns before into after for %s', (_, before, after) => {
+        expect(applyPatch(before, createJsonPatch(before, after))).toEqual(after);
+    });
+
+    it('is empty when nothing changed', () => {
+        expect(createJsonPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+    });
+
+    it('patches paired items in place instead of replacing the array', () => {
+        const before = { objects: [{ id: 1, color: 'red' }, { id: 2, color: 'blue' }] };
+        const after = { objects: [{ id: 2, color: 'green' }] };
+
+        expect(createJsonPatch(before, after)).toEqual([
+            { op: 'remove', path: '/objects/0' },
+            { op: 'replace', path: '/objects/0/color', value: 'green' },
+        ]);
+    });
+});
+
+describe('diffJson', () => {
+    it('pairs array items on id so reordering is not a change', () => {
+        const diff = diffJson({ objects: [{ id: 'a' }, { id: 'b' }] }, { objects: [{ id: 'b' }, { id: 'a' }] });
+
+        expect(diff.kind).toBe('unchanged');
+        expect(diff.children?.[0].matchedBy).toBe('id');
+    });
+
+    it('counts added, removed and changed leaves', () => {
+        const diff = diffJson({ a: 1, b: { c: 2 }, list: [1, 2] }, { a: 2, d: { e: 1, f: 2 }, list: [1] });
+
+        expect(summarizeDiff(diff)).toEqual({ added: 1, removed: 2, changed: 1 });
+    });
+
+    it('measures colour changes and leaves imperceptible ones out of the summary', () => {
+        const diff = diffJson({ skin: '#c68642', hair: '#000000' }, { skin: '#c68643', hair: '#ffffff' });
+        const [skin, hair] = diff.children!;
+
+        expect(isImperceptible(skin)).toBe(true);
+        expect(hair.colorDelta).toBeCloseTo(100, 1);
+        expect(summarizeDiff(diff)).toEqual({ added: 0, removed: 0, changed: 1 });
+        expect(summarizeDiff(diff, true)).toEqual({ added: 0, removed: 0, changed: 2 });
+    });
+});
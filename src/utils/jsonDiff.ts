@@ -0,0 +1,246 @@
+/**
+ * JSON Diff
+ * Tree diff of two JSON documents, for comparing module outputs across
+ * prompt versions and jobs. Array items that carry an `id` or `label` are
+ * paired on it, so a reordered list does not read as every item changing.
+ * Hex colours record how far apart they look (CIEDE2000). The same pairing
+ * produces an RFC 6902 JSON Patch.
+ */
+
+import { colorDistance, parseHexColor } from './color';
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface DiffNode {
+    /** Property name or array index */
+    key: string;
+    /** JSON Pointer into `after`, or into `before` for removed values */
+    path: string;
+    kind: DiffKind;
+    before?: unknown;
+    after?: unknown;
+    /** Set when both sides are objects or both are arrays; 'changed' if anything below changed */
+    children?: DiffNode[];
+    /** Array items were paired on this field rather than by position */
+    matchedBy?: string;
+    /** CIEDE2000 distance when both sides are hex colours */
+    colorDelta?: number;
+}
+
+export interface DiffSummary {
+    added: number;
+    removed: number;
+    changed: number;
+}
+
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: unknown };
+
+/** Colour changes below this CIEDE2000 distance are not visible */
+export const IMPERCEPTIBLE_DELTA_E = 1;
+
+const MATCH_KEYS = ['id', 'label'];
+
+type JsonObject = Record<string, unknown>;
+
+interface ArrayPairing {
+    matchedBy?: string;
+    /** [index in before, index in after], in before order */
+    pairs: [number, number][];
+    removed: number[];
+    added: number[];
+}
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function childPath(path: string, segment: string | number): string {
+    return `${path}/${escapePointer(String(segment))}`;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqual(a[key], b[key]));
+    }
+    return false;
+}
+
+/**
+ * The first of MATCH_KEYS that every item on both sides has, unique per side
+ */
+function findMatchKey(before: unknown[], after: unknown[]): string | undefined {
+    if (before.length === 0 || after.length === 0) return undefined;
+    return MATCH_KEYS.find(key => [before, after].every(items => {
+        const values = items.map(item => isObject(item) ? item[key] : undefined);
+        return values.every(value => typeof value === 'string' || typeof value === 'number')
+            && new Set(values).size === values.length;
+    }));
+}
+
+function pairArrayItems(before: unknown[], after: unknown[]): ArrayPairing {
+    const matchedBy = findMatchKey(before, after);
+    if (!matchedBy) {
+        const common = Math.min(before.length, after.length);
+        return {
+            pairs: Array.from({ length: common }, (_, i) => [i, i] as [number, number]),
+            removed: Array.from({ length: before.length - common }, (_, i) => common + i),
+            added: Array.from({ length: after.length - common }, (_, i) => common + i),
+        };
+    }
+
+    const afterIndex = new Map(after.map((item, i) => [(item as JsonObject)[matchedBy], i]));
+    const pairs: [number, number][] = [];
+    const removed: number[] = [];
+    before.forEach((item, i) => {
+        const j = afterIndex.get((item as JsonObject)[matchedBy]);
+        if (j === undefined) removed.push(i);
+        else pairs.push([i, j]);
+    });
+    const paired = new Set(pairs.map(([, j]) => j));
+    const added = after.map((_, j) => j).filter(j => !paired.has(j));
+    return { matchedBy, pairs, removed, added };
+}
+
+function diffValues(before: unknown, after: unknown, key: string, path: string): DiffNode {
+    if (isObject(before) && isObject(after)) {
+        const children: DiffNode[] = [];
+        for (const [name, value] of Object.entries(before)) {
+            children.push(name in after
+                ? diffValues(value, after[name], name, childPath(path, name))
+                : { key: name, path: childPath(path, name), kind: 'removed', before: value });
+        }
+        for (const [name, value] of Object.entries(after)) {
+            if (!(name in before)) {
+                children.push({ key: name, path: childPath(path, name), kind: 'added', after: value });
+            }
+        }
+        return { key, path, kind: nestedKind(children), before, after, children };
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const { matchedBy, pairs, removed, added } = pairArrayItems(before, after);
+        const byAfterIndex = new Map(pairs.map(([i, j]) => [j, i]));
+        const addedSet = new Set(added);
+        const children: DiffNode[] = [];
+        after.forEach((value, j) => {
+            const i = byAfterIndex.get(j);
+            if (i !== undefined) {
+                children.push(diffValues(before[i], value, String(j), childPath(path, j)));
+            } else if (addedSet.has(j)) {
+                children.push({ key: String(j), path: childPath(path, j), kind: 'added', after: value });
+            }
+        });
+        for (const i of removed) {
+            children.push({ key: String(i), path: childPath(path, i), kind: 'removed', before: before[i] });
+        }
+        return { key, path, kind: nestedKind(children), before, after, children, matchedBy };
+    }
+
+    if (isEqual(before, after)) {
+        return { key, path, kind: 'unchanged', before, after };
+    }
+    const node: DiffNode = { key, path, kind: 'changed', before, after };
+    const beforeColor = parseHexColor(before);
+    const afterColor = parseHexColor(after);
+    if (beforeColor && afterColor) {
+        node.colorDelta = colorDistance(beforeColor, afterColor);
+    }
+    return node;
+}
+
+function nestedKind(children: DiffNode[]): DiffKind {
+    return children.some(child => child.kind !== 'unchanged') ? 'changed' : 'unchanged';
+}
+
+/**
+ * Whether a node is a colour change too small to see
+ */
+export function isImperceptible(node: DiffNode): boolean {
+    return node.colorDelta !== undefined && node.colorDelta < IMPERCEPTIBLE_DELTA_E;
+}
+
+/**
+ * Tree diff of two JSON values; the root node has an empty key and path
+ */
+export function diffJson(before: unknown, after: unknown): DiffNode {
+    return diffValues(before, after, '', '');
+}
+
+/**
+ * Count changed leaves. Added or removed objects count once; imperceptible
+ * colour changes are left out unless asked for.
+ */
+export function summarizeDiff(node: DiffNode, includeImperceptible = false): DiffSummary {
+    const summary: DiffSummary = { added: 0, removed: 0, changed: 0 };
+    const visit = (current: DiffNode) => {
+        if (current.children) {
+            current.children.forEach(visit);
+        } else if (current.kind === 'added') {
+            summary.added++;
+        } else if (current.kind === 'removed') {
+            summary.removed++;
+        } else if (current.kind === 'changed' && (includeImperceptible || !isImperceptible(current))) {
+            summary.changed++;
+        }
+    };
+    visit(node);
+    return summary;
+}
+
+function patchValues(before: unknown, after: unknown, path: string, ops: JsonPatchOperation[]): void {
+    if (isEqual(before, after)) return;
+
+    if (isObject(before) && isObject(after)) {
+        for (const name of Object.keys(before)) {
+            if (!(name in after)) ops.push({ op: 'remove', path: childPath(path, name) });
+        }
+        for (const [name, value] of Object.entries(after)) {
+            if (name in before) patchValues(before[name], value, childPath(path, name), ops);
+            else ops.push({ op: 'add', path: childPath(path, name), value });
+        }
+        return;
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const { pairs, removed, added } = pairArrayItems(before, after);
+        // Paired items that swapped places cannot be patched in place
+        if (pairs.some(([, j], rank) => rank > 0 && j < pairs[rank - 1][1])) {
+            ops.push({ op: 'replace', path, value: after });
+            return;
+        }
+        // From the end, so the indexes still to remove stay valid
+        for (const i of [...removed].reverse()) {
+            ops.push({ op: 'remove', path: childPath(path, i) });
+        }
+        // Only paired items are left, each at its rank
+        pairs.forEach(([i, j], rank) => patchValues(before[i], after[j], childPath(path, rank), ops));
+        // Front to back, every earlier position is already filled when an item goes in
+        for (const j of added) {
+            ops.push({ op: 'add', path: childPath(path, j), value: after[j] });
+        }
+        return;
+    }
+
+    ops.push({ op: 'replace', path, value: after });
+}
+
+/**
+ * RFC 6902 operations that turn `before` into `after`
+ */
+export function createJsonPatch(before: unknown, after: unknown): JsonPatchOperation[] {
+    const ops: JsonPatchOperation[] = [];
+    patchValues(before, after, '', ops);
+    return ops;
+}
@@ -0,0 +1,101 @@
+/**
+ * JSON Extractor Tests
+ * Model replies in the shapes seen in practice: fenced, wrapped in prose,
+ * cut off at the token limit, and with the usual syntax slips.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractJson, parsePartialJson } from './jsonExtractor';
+
+describe('extractJson', () => {
+    it('parses a bare object without repairs', () => {
+        const { data, report } = extractJson('{"name": "x", "list": [1, 2]}');
+
+        expect(data).toEqual({ name: 'x', list: [1, 2] });
+        expect(report).toEqual({ repairs: [], truncated: false, candidates: 1 });
+    });
+
+    it('takes a fenced block without counting the fence as a repair', () => {
+        const { data, report } = extractJson('Here you go:\n```json\n{"name": "x"}\n```\nDone.');
+
+        expect(data).toEqual({ name: 'x' });
+        expect(report.repairs).toEqual([]);
+    });
+
+    it('extracts the largest structure from prose', () => {
+        const { data, report } = extractJson('The result is {"tags": ["a", "b"], "count": 2} as requested.');
+
+        expect(data).toEqual({ tags: ['a', 'b'], count: 2 });
+        expect(report.repairs).toEqual(['extracted_from_prose']);
+    });
+
+    it('prefers a fenced answer that needs repairs over example JSON in the prose', () => {
+        const { data, report } = extractJson('Example: {"id": 1} and the answer ```json\n{"name": "x", "list": [1,2],}\n```');
+
+        expect(data).toEqual({ name: 'x', list: [1, 2] });
+        expect(report.repairs).toEqual(['removed_trailing_commas']);
+    });
+
+    it('prefers the outermost prose structure over smaller ones', () => {
+        const { data } = extractJson('Schema [1] then {"a": {"b": [1, 2, 3]}, "c": true,} end');
+
+        expect(data).toEqual({ a: { b: [1, 2, 3] }, c: true });
+    });
+
+    it('removes trailing commas', () => {
+        const { data, report } = extractJson('{"a": [1, 2,], "b": {"c": 1,},}');
+
+        expect(data).toEqual({ a: [1, 2], b: { c: 1 } });
+        expect(report.repairs).toEqual(['removed_trailing_commas']);
+    });
+
+    it('leaves commas and quotes inside strings alone', () => {
+        const { data } = extractJson('{"text": "a ,] and “quoted”", "n": 1,}');
+
+        expect(data).toEqual({ text: 'a ,] and “quoted”', n: 1 });
+    });
+
+    it('removes comments and replaces smart quotes', () => {
+        const { data, report } = extractJson('{\n  // the name\n  “name”: “x”\n}');
+
+        expect(data).toEqual({ name: 'x' });
+        expect(report.repairs).toEqual(['removed_comments', 'replaced_smart_quotes']);
+    });
+
+    it('closes a response truncated mid-string', () => {
+        const { data, report } = extractJson('```json\n{"subject": {"pose": "standing"}, "notes": ["one", "tw');
+
+        expect(data).toEqual({ subject: { pose: 'standing' }, notes: ['one', 'tw'] });
+        expect(report.truncated).toBe(true);
+        expect(report.repairs).toEqual(['closed_truncated_output']);
+    });
+
+    it('drops a dangling key from a truncated response', () => {
+        const { data, report } = extractJson('{"a": 1, "b": {"c": 2, "d":');
+
+        expect(data).toEqual({ a: 1, b: { c: 2 } });
+        expect(report.truncated).toBe(true);
+    });
+
+    it('skips a stray brace in prose before the answer', () => {
+        const { data } = extractJson('Use { to open objects. Answer: {"ok": true}');
+
+        expect(data).toEqual({ ok: true });
+    });
+
+    it('throws when nothing parses', () => {
+        expect(() => extractJson('no json here')).toThrow('No valid JSON found in response');
+        expect(() => extractJson('{"a": tru')).toThrow('Response JSON is truncated and could not be repaired');
+    });
+});
+
+describe('parsePartialJson', () => {
+    it('closes the structure streamed so far', () => {
+        expect(parsePartialJson('{"a": [1, 2, {"b": "te')).toEqual({ a: [1, 2, { b: 'te' }] });
+    });
+
+    it('returns null when the text stops inside a literal', () => {
+        expect(parsePartialJson('{"a": tr')).toBeNull();
+        expect(parsePartialJson('no json')).toBeNull();
+    });
+});
@@ -0,0 +1,317 @@
+/**
+ * Tolerant JSON extraction for LLM responses
+ * Finds JSON candidates in fenced blocks or prose via balanced-brace scanning,
+ * then applies the smallest set of repairs that makes one of them parse.
+ */
+
+import type { ExtractionReport, JsonRepair } from '../types';
+
+export interface JsonExtraction<T> {
+    data: T;
+    report: ExtractionReport;
+}
+
+interface Candidate {
+    text: string;
+    fenced: boolean;
+    /** Offset of a prose candidate in the response; -1 for fenced blocks */
+    start: number;
+}
+
+interface ScanState {
+    /** Unclosed brackets, innermost last */
+    stack: string[];
+    inString: boolean;
+}
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Walk the text tracking string and bracket state
+ */
+function scan(text: string): ScanState {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const ch of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') stack.push(ch);
+        else if ((ch === '}' || ch === ']') && stack.length > 0) stack.pop();
+    }
+
+    return { stack, inString };
+}
+
+/**
+ * Return the index just past the structure opened at `start`, or -1 if it never closes
+ */
+function findBalancedEnd(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') depth++;
+        else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Collect JSON-looking blocks: fenced code blocks first (an unterminated
+ * trailing fence counts), then top-level balanced structures in the prose.
+ */
+function findCandidates(text: string): Candidate[] {
+    const candidates: Candidate[] = [];
+
+    const fence = /```(?:json|JSON)?[^\S\n]*\n?([\s\S]*?)(?:```|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = fence.exec(text)) !== null) {
+        const body = match[1].trim();
+        if (body.startsWith('{') || body.startsWith('[')) {
+            candidates.push({ text: body, fenced: true, start: -1 });
+        }
+    }
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch !== '{' && ch !== '[') {
+            i++;
+            continue;
+        }
+        const end = findBalancedEnd(text, i);
+        if (end === -1) {
+            // Runs to the end of the response: a truncation candidate, or a stray
+            // brace in prose, so keep looking for structures that start inside it
+            candidates.push({ text: text.slice(i).replace(/```\s*$/, '').trim(), fenced: false, start: i });
+            i++;
+            continue;
+        }
+        candidates.push({ text: text.slice(i, end), fenced: false, start: i });
+        i = end;
+    }
+
+    // Largest prose structure first, so an object wins over an array nested in prose.
+    // Skip prose matches that are just the inside of a fenced block seen already.
+    const fenced = candidates.filter(c => c.fenced);
+    const prose = candidates
+        .filter(c => !c.fenced && !fenced.some(f => f.text === c.text))
+        .sort((a, b) => b.text.length - a.text.length);
+    return [...fenced, ...prose];
+}
+
+/**
+ * Apply a transform to the text outside string literals only
+ */
+function mapOutsideStrings(text: string, transform: (segment: string) => string): string {
+    let result = '';
+    let segment = '';
+    let inString = false;
+    let escaped = false;
+
+    for (const ch of text) {
+        if (inString) {
+            result += ch;
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') {
+            result += transform(segment) + ch;
+            segment = '';
+            inString = true;
+        } else {
+            segment += ch;
+        }
+    }
+
+    return result + (inString ? segment : transform(segment));
+}
+
+function removeComments(text: string): string {
+    return mapOutsideStrings(text, s => s.replace(/\/\/[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, ''));
+}
+
+/**
+ * Typographic quotes used as string delimiters; ones inside a string are content
+ */
+function replaceSmartQuotes(text: string): string {
+    return mapOutsideStrings(text, s => s.replace(/[“”„‟″]/g, '"'));
+}
+
+function removeTrailingCommas(text: string): string {
+    return mapOutsideStrings(text, s => s.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Close a structure cut off mid-stream: finish the open string, drop a
+ * dangling key or separator, then append the missing closers.
+ */
+function closeTruncated(text: string): string {
+    const { inString } = scan(text);
+    let result = inString ? text + '"' : text;
+
+    result = result.replace(/\s+$/, '');
+    // A key with no value yet, or a key still waiting for its colon
+    result = result.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '');
+    const open = scan(result).stack;
+    if (open[open.length - 1] === '{') {
+        result = result.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1');
+    }
+    result = result.replace(/[,:]\s*$/, '');
+
+    const { stack } = scan(result);
+    return result + stack.reverse().map(open => CLOSERS[open]).join('');
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+    try {
+        const value = JSON.parse(text);
+        return value !== null && typeof value === 'object' ? { ok: true, value } : { ok: false };
+    } catch {
+        return { ok: false };
+    }
+}
+
+const REPAIR_STEPS: Array<[JsonRepair, (text: string) => string]> = [
+    ['removed_comments', removeComments],
+    ['replaced_smart_quotes', replaceSmartQuotes],
+    ['removed_trailing_commas', removeTrailingCommas],
+];
+
+/**
+ * Every combination of the repair steps that changes the text, fewest steps
+ * first, so a step that makes the parse worse is simply left out
+ */
+function repairVariants(text: string): { text: string; repairs: JsonRepair[] }[] {
+    const variants: { text: string; repairs: JsonRepair[] }[] = [];
+    const seen = new Set<string>();
+    for (let mask = 0; mask < 1 << REPAIR_STEPS.length; mask++) {
+        let next = text;
+        const repairs: JsonRepair[] = [];
+        REPAIR_STEPS.forEach(([repair, apply], index) => {
+            if (!(mask & (1 << index))) return;
+            const applied = apply(next);
+            if (applied !== next) {
+                next = applied;
+                repairs.push(repair);
+            }
+        });
+        if (!seen.has(next)) {
+            seen.add(next);
+            variants.push({ text: next, repairs });
+        }
+    }
+    return variants.sort((a, b) => a.repairs.length - b.repairs.length);
+}
+
+/**
+ * Parse one candidate with the fewest repairs that make it parse
+ */
+function parseCandidate(candidate: Candidate): { value: unknown; repairs: JsonRepair[]; truncated: boolean } | null {
+    const variants = repairVariants(candidate.text);
+    for (const { text, repairs } of variants) {
+        const parsed = tryParse(text);
+        if (parsed.ok) return { value: parsed.value, repairs, truncated: false };
+    }
+
+    for (const { text, repairs } of variants) {
+        const state = scan(text);
+        if (state.stack.length === 0 && !state.inString) continue;
+        const closed = tryParse(closeTruncated(text));
+        if (closed.ok) {
+            return { value: closed.value, repairs: [...repairs, 'closed_truncated_output'], truncated: true };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Best-effort parse of a response that is still streaming in.
+ * Returns null when the text so far cannot be closed into valid JSON,
+ * e.g. when it stops in the middle of a number or literal.
+ */
+export function parsePartialJson(text: string): unknown | null {
+    const start = text.search(/[{[]/);
+    if (start === -1) return null;
+
+    let body = text.slice(start);
+    const end = findBalancedEnd(body, 0);
+    if (end !== -1) body = body.slice(0, end);
+
+    const parsed = tryParse(body);
+    if (parsed.ok) return parsed.value;
+
+    const closed = tryParse(closeTruncated(removeTrailingCommas(body)));
+    return closed.ok ? closed.value : null;
+}
+
+/**
+ * Extract the best JSON object or array from a model response.
+ * Throws when no candidate can be parsed, even after repairs.
+ */
+export function extractJson<T>(text: string): JsonExtraction<T> {
+    const candidates = findCandidates(text);
+    if (candidates.length === 0) {
+        throw new Error('No valid JSON found in response');
+    }
+
+    type Parsed = NonNullable<ReturnType<typeof parseCandidate>> & { candidate: Candidate };
+    const parsed: Parsed[] = [];
+    for (const candidate of candidates) {
+        const result = parseCandidate(candidate);
+        if (!result) continue;
+        // Fenced blocks are the format prompts ask for, so only bare JSON found inside prose counts as a repair
+        const fromProse = !candidate.fenced && candidate.text !== text.trim();
+        const repairs: JsonRepair[] = fromProse ? ['extracted_from_prose', ...result.repairs] : result.repairs;
+        parsed.push({ ...result, repairs, candidate });
+    }
+
+    // A structure found inside a truncated one that also parses is part of it, not the answer
+    const contains = (outer: Candidate, inner: Candidate) => outer !== inner
+        && outer.start !== -1 && inner.start > outer.start
+        && inner.start < outer.start + outer.text.length;
+    // Fenced answers beat stray examples in the prose, and bigger structures beat
+    // smaller ones; repairs only break ties between otherwise equal candidates
+    const best = parsed
+        .filter(result => !parsed.some(other => contains(other.candidate, result.candidate)))
+        .sort((a, b) => Number(b.candidate.fenced) - Number(a.candidate.fenced)
+            || b.candidate.text.length - a.candidate.text.length
+            || a.repairs.length - b.repairs.length)[0];
+
+    if (!best) {
+        const truncated = candidates.some(c => scan(c.text).stack.length > 0);
+        throw new Error(truncated
+            ? 'Response JSON is truncated and could not be repaired'
+            : 'No valid JSON found in response');
+    }
+
+    return {
+        data: best.value as T,
+        report: { repairs: best.repairs, truncated: best.truncated, candidates: candidates.length },
+    };
+}
+
+export default extractJson;
@@ -0,0 +1,95 @@
+/**
+ * Schema Validator Tests
+ * Each keyword of the supported subset, and the JSON Pointer paths the
+ * violations are reported at.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateSchema, type JsonSchema } from './schemaValidator';
+
+const SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['meta', 'objects'],
+    properties: {
+        meta: {
+            type: 'object',
+            required: ['confidence'],
+            properties: {
+                confidence: { type: 'number', minimum: 0, maximum: 1 },
+                mode: { enum: ['fast', 'full'] },
+            },
+        },
+        objects: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'integer' },
+                    label: { type: ['string', 'null'] },
+                },
+            },
+        },
+    },
+};
+
+describe('validateSchema', () => {
+    it('accepts a conforming document', () => {
+        const value = { meta: { confidence: 0.9, mode: 'fast' }, objects: [{ id: 1, label: 'cup' }, { id: 2, label: null }] };
+
+        expect(validateSchema(value, SCHEMA)).toEqual([]);
+    });
+
+    it('reports a type mismatch at the root', () => {
+        expect(validateSchema([], SCHEMA)).toEqual([{ path: '/', message: 'Expected object, got array' }]);
+    });
+
+    it('reports missing required properties', () => {
+        expect(validateSchema({ meta: {} }, SCHEMA)).toEqual([
+            { path: '/objects', message: 'Missing required property' },
+            { path: '/meta/confidence', message: 'Missing required property' },
+        ]);
+    });
+
+    it('treats undefined properties as missing', () => {
+        expect(validateSchema({ meta: { confidence: undefined }, objects: [] }, SCHEMA))
+            .toEqual([{ path: '/meta/confidence', message: 'Missing required property' }]);
+    });
+
+    it('checks enum, minimum and maximum', () => {
+        const violations = validateSchema({ meta: { confidence: 1.5, mode: 'slow' }, objects: [] }, SCHEMA);
+
+        expect(violations).toEqual([
+            { path: '/meta/confidence', message: 'Must be <= 1' },
+            { path: '/meta/mode', message: 'Must be one of: fast, full' },
+        ]);
+        expect(validateSchema(-1, { type: 'number', minimum: 0 })).toEqual([{ path: '/', message: 'Must be >= 0' }]);
+    });
+
+    it('tells integers from numbers', () => {
+        const violations = validateSchema({ meta: { confidence: 1 }, objects: [{ id: 1.5 }] }, SCHEMA);
+
+        expect(violations).toEqual([{ path: '/objects/0/id', message: 'Expected integer, got number' }]);
+    });
+
+    it('accepts any of several types', () => {
+        const violations = validateSchema({ meta: { confidence: 0 }, objects: [{ id: 1, label: 3 }] }, SCHEMA);
+
+        expect(violations).toEqual([{ path: '/objects/0/label', message: 'Expected string | null, got integer' }]);
+    });
+
+    it('validates every array item and stops below a type mismatch', () => {
+        const violations = validateSchema({ meta: { confidence: 0 }, objects: [{ id: 1 }, 'cup', {}] }, SCHEMA);
+
+        expect(violations).toEqual([
+            { path: '/objects/1', message: 'Expected object, got string' },
+            { path: '/objects/2/id', message: 'Missing required property' },
+        ]);
+    });
+
+    it('escapes property names in paths', () => {
+        const schema: JsonSchema = { type: 'object', properties: { 'a/b~c': { type: 'string' } } };
+
+        expect(validateSchema({ 'a/b~c': 1 }, schema)).toEqual([{ path: '/a~1b~0c', message: 'Expected string, got integer' }]);
+    });
+});
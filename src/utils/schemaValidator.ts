@@ -0,0 +1,89 @@
+/**
+ * Minimal JSON Schema validator
+ * Supports the subset used by the module schemas: type, properties,
+ * required, items, enum, minimum and maximum.
+ */
+
+import type { SchemaViolation } from '../types';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    title?: string;
+    description?: string;
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: unknown[];
+    minimum?: number;
+    maximum?: number;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, expected: JsonSchemaType): boolean {
+    const actual = typeOf(value);
+    return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+function escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function validateNode(value: unknown, schema: JsonSchema, path: string, violations: SchemaViolation[]): void {
+    if (schema.type) {
+        const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!expected.some(t => matchesType(value, t))) {
+            violations.push({ path: path || '/', message: `Expected ${expected.join(' | ')}, got ${typeOf(value)}` });
+            return;
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        violations.push({ path: path || '/', message: `Must be one of: ${schema.enum.join(', ')}` });
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            violations.push({ path: path || '/', message: `Must be >= ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            violations.push({ path: path || '/', message: `Must be <= ${schema.maximum}` });
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (!(key in record) || record[key] === undefined) {
+                violations.push({ path: `${path}/${escapePointer(key)}`, message: 'Missing required property' });
+            }
+        }
+        for (const [key, childSchema] of Object.entries(schema.properties || {})) {
+            if (key in record && record[key] !== undefined) {
+                validateNode(record[key], childSchema, `${path}/${escapePointer(key)}`, violations);
+            }
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => validateNode(item, schema.items!, `${path}/${index}`, violations));
+    }
+}
+
+/**
+ * Validate a value against a schema, returning every violation found
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    validateNode(value, schema, '', violations);
+    return violations;
+}
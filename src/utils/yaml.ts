@@ -0,0 +1,97 @@
+/**
+ * Minimal YAML reader for the files in configs/
+ * Supports nested maps by indentation, scalar lists, comments and
+ * string/number/boolean/null scalars. Anchors, multi-line strings and
+ * flow collections are not supported.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface Line {
+    indent: number;
+    text: string;
+}
+
+function stripComment(line: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+}
+
+function parseScalar(raw: string): YamlValue {
+    const value = raw.trim();
+    if (value === '' || value === '~' || value === 'null') return null;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+        return value.slice(1, -1);
+    }
+    return value;
+}
+
+function parseBlock(lines: Line[], start: number, indent: number): [YamlValue, number] {
+    if (lines[start]?.text.startsWith('- ')) {
+        const list: YamlValue[] = [];
+        let i = start;
+        while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('- ')) {
+            list.push(parseScalar(lines[i].text.slice(2)));
+            i++;
+        }
+        return [list, i];
+    }
+
+    const map: { [key: string]: YamlValue } = {};
+    let i = start;
+    while (i < lines.length && lines[i].indent === indent) {
+        const { text } = lines[i];
+        const colon = text.indexOf(':');
+        if (colon === -1) {
+            throw new Error(`Invalid YAML line: ${text}`);
+        }
+        const key = text.slice(0, colon).trim().replace(/^["']|["']$/g, '');
+        const rest = text.slice(colon + 1).trim();
+        i++;
+
+        if (rest !== '') {
+            map[key] = parseScalar(rest);
+        } else if (i < lines.length && lines[i].indent > indent) {
+            [map[key], i] = parseBlock(lines, i, lines[i].indent);
+        } else {
+            map[key] = null;
+        }
+    }
+    return [map, i];
+}
+
+export function parseYaml(source: string): { [key: string]: YamlValue } {
+    const lines: Line[] = source
+        .split(/\r?\n/)
+        .map(stripComment)
+        .filter(line => line.trim() !== '')
+        .map(line => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+
+    if (lines.length === 0) return {};
+
+    const [value] = parseBlock(lines, 0, lines[0].indent);
+    return Array.isArray(value) || value === null || typeof value !== 'object' ? {} : value;
+}
+
+/**
+ * A nested map of a parsed config, or an empty one when the key is missing
+ * or holds a scalar or list
+ */
+export function section(value: YamlValue | undefined): { [key: string]: YamlValue } {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+export default parseYaml;
@@ -0,0 +1,91 @@
+/**
+ * ZIP Tests
+ * Archives written by createZip read back byte for byte, and deflated
+ * entries from other tools inflate on the way in.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zip';
+
+/**
+ * Single-entry archive with a deflated entry, laid out like other zip tools write it
+ */
+async function deflatedZip(name: string, content: string): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const nameBytes = encoder.encode(name);
+    const stream = new Blob([content]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, 8, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, content.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, 8, true);
+    central.setUint32(20, compressed.length, true);
+    central.setUint32(24, content.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, 0, true);
+
+    const centralOffset = 30 + nameBytes.length + compressed.length;
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, 1, true);
+    end.setUint16(10, 1, true);
+    end.setUint32(12, 46 + nameBytes.length, true);
+    end.setUint32(16, centralOffset, true);
+
+    return new Blob([local, nameBytes, compressed, central, nameBytes, end]);
+}
+
+describe('zip', () => {
+    it('round-trips text and binary entries', async () => {
+        const binary = Uint8Array.from({ length: 1024 }, (_, i) => (i * 37) % 256);
+        const archive = createZip([
+            { name: 'manifest.json', data: '{"format":"backup"}' },
+            { name: 'assets/image.bin', data: binary },
+            { name: 'empty.txt', data: '' },
+        ]);
+
+        const files = await readZip(archive);
+
+        expect([...files.keys()]).toEqual(['manifest.json', 'assets/image.bin', 'empty.txt']);
+        expect(new TextDecoder().decode(files.get('manifest.json'))).toBe('{"format":"backup"}');
+        expect(files.get('assets/image.bin')).toEqual(binary);
+        expect(files.get('empty.txt')?.length).toBe(0);
+    });
+
+    it('keeps UTF-8 file names and content', async () => {
+        const files = await readZip(createZip([{ name: 'prompts/portrait – café.txt', data: 'naïve ✓' }]));
+
+        expect(new TextDecoder().decode(files.get('prompts/portrait – café.txt'))).toBe('naïve ✓');
+    });
+
+    it('reads an empty archive', async () => {
+        expect((await readZip(createZip([]))).size).toBe(0);
+    });
+
+    it('inflates deflated entries', async () => {
+        const content = 'repeated text '.repeat(200);
+
+        const files = await readZip(await deflatedZip('notes.txt', content));
+
+        expect(new TextDecoder().decode(files.get('notes.txt'))).toBe(content);
+    });
+
+    it('rejects files that are not ZIP archives', async () => {
+        await expect(readZip(new Blob(['not a zip file at all, just some text']))).rejects.toThrow('Not a ZIP file');
+    });
+
+    it('rejects a corrupt central directory', async () => {
+        const bytes = new Uint8Array(await createZip([{ name: 'a.txt', data: 'a' }]).arrayBuffer());
+        // The central directory follows the 30 byte local header, the name and the data
+        bytes[30 + 'a.txt'.length + 1] = 0;
+
+        await expect(readZip(new Blob([bytes]))).rejects.toThrow('Corrupt ZIP central directory');
+    });
+});
@@ -0,0 +1,27 @@
+/**
+ * Image Preprocess Worker
+ * Runs preprocessImage off the main thread so large photos do not stall the UI.
+ */
+
+import { preprocessImage, type PreprocessOptions, type PreprocessResult } from '../utils/imagePreprocess';
+
+export interface PreprocessRequest {
+    id: number;
+    file: Blob;
+    options: PreprocessOptions;
+}
+
+export type PreprocessResponse =
+    | { id: number; result: PreprocessResult }
+    | { id: number; error: string };
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+    const { id, file, options } = event.data;
+    let response: PreprocessResponse;
+    try {
+        response = { id, result: await preprocessImage(file, options) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response);
+};